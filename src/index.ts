@@ -10,40 +10,92 @@ import {
   bulkCreateTasks,
   createTask,
   deleteAllTasksForFile,
+  getProducingTask,
+  getTask,
   getTasksForFileAndDecendants,
+  getTasksWithQueuePosition,
   restoreAllProcessingTasksToQueued,
   type Task,
 } from './utils/tasks.ts';
-import { checkFilesExist, createFile, deleteFile, getDecendants, getFile } from './utils/files.ts';
+import {
+  checkFilesExist,
+  createFile,
+  deleteFile,
+  getDecendants,
+  getFile,
+  getFilePackaging,
+  getFileScenes,
+  getFileSilences,
+  getOwnedFile,
+  updateFilePackaging,
+  type PackagingFormat,
+  type UserFile,
+} from './utils/files.ts';
 import {
   AddAudioTrackSchema,
+  AddSubtitlesSchema,
   BulkSchema,
+  BurnSubtitlesSchema,
   ChainSchema,
+  ChangeSpeedSchema,
+  CropSchema,
   CutEndSchema,
+  DashSchema,
+  DetectScenesSchema,
+  DetectSilenceSchema,
   ExtractAudioSchema,
+  ExtractSubtitlesSchema,
   ExtractThumbnailSchema,
+  HlsSchema,
+  ImportParams,
+  MakeAnimationSchema,
   MergeMediaSchema,
+  NormalizeAudioSchema,
+  OverlaySchema,
   RemoveAudioSchema,
+  RemoveSilenceSchema,
   ResizeVideoSchema,
+  RotateSchema,
+  SpriteSheetSchema,
   TranscodeSchema,
   TrimSchema,
+  UploadUrlSchema,
+  WaveformSchema,
 } from './utils/schemas.ts';
-import { startFFQueue } from './utils/queue-ff.ts';
+import { cancelTask, retryTask, startFFQueue } from './utils/queue-ff.ts';
 import { after, startBgQueue } from './utils/queue-bg.ts';
-import { spaces, deleteDashFiles } from './utils/s3.ts';
-import { getFileMetadata, probeFileContent, updateFileMetadata } from './utils/ffmpeg.ts';
+import { spaces, deleteDashFiles, deleteHlsFiles } from './utils/s3.ts';
+import { getFileMetadata, probeFileContent, probeRemoteStreams, updateFileMetadata } from './utils/ffmpeg.ts';
 import { tryCatch } from './utils/promises.ts';
-import { initDir, META_DIR, TEMP_DIR } from './utils/dirs.ts';
-import { ALLOWED_MIME_TYPES } from './utils/formats.ts';
-
-const MAX_FILE_SIZE_UPLOAD = Number(process.env.MAX_FILE_SIZE_UPLOAD);
+import { createTaskEventStream, type TaskEvent } from './utils/events.ts';
+import { authenticate } from './utils/auth.ts';
+import {
+  appendToUpload,
+  completeUpload,
+  createUpload,
+  deleteUpload,
+  getOwnedUpload,
+  getUploadExpiration,
+  getUploadKey,
+  isUploadLocked,
+  lockUpload,
+  parseUploadMetadata,
+  presignUpload,
+  registerUploadedFile,
+  startUploadsCleanup,
+  unlockUpload,
+} from './utils/uploads.ts';
+import { ensureDir, initDir, META_DIR, TEMP_DIR, UPLOADS_DIR } from './utils/dirs.ts';
+import { ALLOWED_MIME_TYPES, MAX_FILE_SIZE_UPLOAD, resolveMimeType, resolveProbedMimeType } from './utils/formats.ts';
 
 await initDir(TEMP_DIR);
 await initDir(META_DIR);
+await ensureDir(UPLOADS_DIR);
 await restoreAllProcessingTasksToQueued();
 
 startFFQueue();
 startBgQueue();
+startUploadsCleanup();
 
 const CORS_HEADERS = {
   "Access-Control-Allow-Origin": "*",
@@ -51,6 +103,133 @@ const CORS_HEADERS = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization",
 };
 
+const TUS_VERSION = "1.0.0";
+
+const TUS_HEADERS = {
+  ...CORS_HEADERS,
+  "Access-Control-Allow-Methods": "POST, HEAD, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, Tus-Resumable, Upload-Length, Upload-Offset, Upload-Metadata",
+  "Access-Control-Expose-Headers": "Location, Tus-Resumable, Tus-Version, Tus-Extension, Tus-Max-Size, Upload-Offset, Upload-Length, Upload-Expires",
+  "Tus-Resumable": TUS_VERSION,
+};
+
+const TUS_OPTIONS_HEADERS = {
+  ...TUS_HEADERS,
+  "Tus-Version": TUS_VERSION,
+  "Tus-Extension": "creation,termination,expiration",
+  ...(Number.isFinite(MAX_FILE_SIZE_UPLOAD) ? { "Tus-Max-Size": MAX_FILE_SIZE_UPLOAD.toString() } : {}),
+};
+
+const SSE_HEADERS = {
+  ...CORS_HEADERS,
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  "Connection": "keep-alive",
+};
+
+/**
+ * Wraps a route handler so it only runs for requests with a valid API key,
+ * the handler receives the owner of the key to scope every file and task lookup.
+ */
+function withAuth<T extends string>(
+  handler: (req: Bun.BunRequest<T>, owner: string) => Response | Promise<Response>,
+) {
+  return async (req: Bun.BunRequest<T>) => {
+    const owner = await authenticate(req);
+    if (!owner) {
+      return new Response("Unauthorized", { status: 401, headers: CORS_HEADERS });
+    }
+    return handler(req, owner);
+  };
+}
+
+/**
+ * A file can only have one package of each format in the works, a new request would overwrite the status of the running one.
+ * Returns the `409` response to send if any of the formats is already queued or processing.
+ */
+function getPackagingConflict(file: UserFile, formats: PackagingFormat[]) {
+  const packaging = getFilePackaging(file);
+  for (const format of formats) {
+    const status = packaging[format];
+    if (status === 'queued' || status === 'processing') {
+      return new Response(`${format.toUpperCase()} package is already ${status}`, { status: 409, headers: CORS_HEADERS });
+    }
+  }
+  return null;
+}
+
+const STREAMING_FILE_NAME = /^[\w.-]+$/;
+const STREAMING_URL_EXPIRATION = 60 * 60;
+
+/**
+ * Serves the files of a streaming package without authentication, so players can point at bunpeg directly.
+ * Manifests and playlists are proxied (their relative segment urls keep resolving against bunpeg),
+ * segments are redirected to a presigned url to avoid streaming the media through the server.
+ */
+async function serveStreamingFile(fileId: string | undefined, format: PackagingFormat, name: string | undefined) {
+  if (!fileId || !name || !STREAMING_FILE_NAME.test(name)) {
+    return new Response("Invalid file", { status: 400, headers: CORS_HEADERS });
+  }
+
+  const key = `${fileId}/${format}/${name}`;
+  const s3File = spaces.file(key);
+  if (!(await s3File.exists())) {
+    return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+  }
+
+  if (name.endsWith('.mpd') || name.endsWith('.m3u8')) {
+    return new Response(s3File, {
+      status: 200,
+      headers: {
+        ...CORS_HEADERS,
+        "Content-Type": name.endsWith('.mpd') ? "application/dash+xml" : "application/vnd.apple.mpegurl",
+        "Cache-Control": "no-cache",
+      },
+    });
+  }
+
+  const url = spaces.presign(key, { expiresIn: STREAMING_URL_EXPIRATION });
+  return new Response(null, { status: 302, headers: { ...CORS_HEADERS, Location: url } });
+}
+
+/**
+ * Serves the WebVTT track of a sprite sheet without authentication, the same way as the streaming packages.
+ * The cues point to the sheets by their file path, relative urls that resolve against `/sprites/:track_id/`,
+ * where the sheets (only the images the cues point to) are redirected to a presigned url.
+ */
+async function serveSpriteFile(trackId: string | undefined, name?: string) {
+  const track = trackId ? await getFile(trackId) : undefined;
+  // only the tracks written by a `sprite-sheet` task are public, any other file keeps requiring its owner's key
+  if (!track || !track.parent || !(await getProducingTask(track.id, 'sprite-sheet'))) {
+    return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+  }
+
+  if (!name) {
+    return new Response(spaces.file(track.file_path), {
+      status: 200,
+      headers: { ...CORS_HEADERS, "Content-Type": "text/vtt", "Cache-Control": "no-cache" },
+    });
+  }
+
+  if (!STREAMING_FILE_NAME.test(name)) {
+    return new Response("Invalid file", { status: 400, headers: CORS_HEADERS });
+  }
+
+  // the sheets of the track are the ones its cues point to
+  const cues = await spaces.file(track.file_path).text();
+  if (!cues.includes(`\n${name}#xywh=`)) {
+    return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+  }
+
+  const sheet = await getFile(path.parse(name).name);
+  if (!sheet || sheet.file_path !== name || sheet.parent !== track.parent || sheet.owner !== track.owner) {
+    return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+  }
+
+  const url = spaces.presign(sheet.file_path, { expiresIn: STREAMING_URL_EXPIRATION });
+  return new Response(null, { status: 302, headers: { ...CORS_HEADERS, Location: url } });
+}
+
 const server = serve({
   routes: {
     "/": docs,
@@ -78,17 +257,134 @@ const server = serve({
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      GET: async () => {
-        const tasks = await sql`SELECT * FROM tasks ORDER BY id`;
+      GET: withAuth(async (req, owner) => {
+        const tasks = await getTasksWithQueuePosition(owner);
         return Response.json({ tasks }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
+    },
+
+    "/tasks/:id": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
+      },
+      DELETE: withAuth(async (req, owner) => {
+        const taskId = Number(req.params.id);
+        if (!Number.isInteger(taskId)) return new Response("Invalid task id", { status: 400, headers: CORS_HEADERS });
+
+        const task = await getTask(taskId);
+        if (!task || task.owner !== owner) return new Response("Task not found", { status: 404, headers: CORS_HEADERS });
+
+        const cancelledTask = await cancelTask(taskId);
+        if (!cancelledTask) {
+          return new Response(`Task is already ${task.status}`, { status: 409, headers: CORS_HEADERS });
+        }
+
+        return Response.json({ taskId, status: cancelledTask.status }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/tasks/:id/retry": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
+      },
+      POST: withAuth(async (req, owner) => {
+        const taskId = Number(req.params.id);
+        if (!Number.isInteger(taskId)) return new Response("Invalid task id", { status: 400, headers: CORS_HEADERS });
+
+        const task = await getTask(taskId);
+        if (!task || task.owner !== owner) return new Response("Task not found", { status: 404, headers: CORS_HEADERS });
+
+        const retried = await retryTask(taskId);
+        if (!retried) {
+          return new Response(`Only failed tasks can be retried, task is ${task.status}`, { status: 409, headers: CORS_HEADERS });
+        }
+
+        return Response.json({
+          taskId,
+          status: retried.task.status,
+          revivedTasks: retried.revivedTasks.map((t) => t.id),
+        }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/cancel/:file_id": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
+      },
+      POST: withAuth(async (req, owner) => {
+        const fileId = req.params.file_id;
+        if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
+
+        const dbFile = await getOwnedFile(fileId, owner);
+        if (!dbFile) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
+
+        const tasks = await getTasksForFileAndDecendants(fileId);
+        const pendingStatus = ['queued', 'processing'] as Task['status'][];
+        const pendingTasks = tasks.filter((task) => pendingStatus.includes(task.status));
+
+        const cancelledTasks: Task['id'][] = [];
+        for (const task of pendingTasks) {
+          const cancelledTask = await cancelTask(task.id);
+          if (cancelledTask) cancelledTasks.push(cancelledTask.id);
+        }
+
+        return Response.json({ fileId, cancelledTasks }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/events": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
+      },
+      GET: withAuth(async (req, owner) => {
+        const stream = createTaskEventStream({ filter: (event) => event.owner === owner });
+        return new Response(stream, { status: 200, headers: SSE_HEADERS });
+      })
+    },
+
+    "/events/:file_id": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
+      },
+      GET: withAuth(async (req, owner) => {
+        const fileId = req.params.file_id;
+        if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
+
+        const dbFile = await getOwnedFile(fileId, owner);
+        if (!dbFile) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
+
+        /**
+         * Tracks which files belong to the stream, the `Map<file_id, boolean>` starts with
+         * the current decendants and gets filled as events for new files come in.
+         */
+        const relatedFiles = new Map<string, boolean>([[fileId, true]]);
+        for (const decendant of await getDecendants(fileId)) {
+          relatedFiles.set(decendant.id, true);
+        }
+
+        const filter = async (event: TaskEvent) => {
+          if (event.owner !== owner) return false;
+          if (!relatedFiles.has(event.file_id)) {
+            const eventFile = await getOwnedFile(event.file_id, owner);
+            relatedFiles.set(event.file_id, eventFile?.parent === fileId);
+          }
+          return relatedFiles.get(event.file_id)!;
+        };
+
+        const tasks = await getTasksForFileAndDecendants(fileId);
+        const stream = createTaskEventStream({
+          filter,
+          initialEvents: [{ type: 'snapshot', data: { fileId, tasks } }],
+        });
+        return new Response(stream, { status: 200, headers: SSE_HEADERS });
+      })
     },
 
     "/upload": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      POST: async (req) => {
+      POST: withAuth(async (req, owner) => {
         const contentType = req.headers.get("content-type") || "";
         if (!contentType.includes("multipart/form-data")) {
           return new Response("Invalid content type", { status: 400, headers: CORS_HEADERS });
@@ -102,11 +398,12 @@ const server = serve({
 
         const upload = new Promise<boolean>(async (resolve) => {
           bb.on("file", async (_f, fileStream, info) => {
-            const { filename, mimeType } = info;
+            const { filename } = info;
+            const mimeType = resolveMimeType(info.mimeType, filename);
 
             if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
               fileStream.resume(); // Drain stream
-              bb.emit("error", new Error("Invalid file type. Only video/audio allowed."));
+              bb.emit("error", new Error("Invalid file type. Only video, audio, images or subtitles allowed."));
               return;
             }
 
@@ -143,7 +440,7 @@ const server = serve({
               await s3File.delete();
               resolve(false);
             } else {
-              await createFile({ id: fileId, file_name: filename, file_path: fileKey, mime_type: mimeType });
+              await createFile({ id: fileId, file_name: filename, file_path: fileKey, mime_type: mimeType, owner });
               fileUploaded = true;
               resolve(true);
             }
@@ -178,84 +475,316 @@ const server = serve({
         })
 
         return Response.json({ fileId }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
+    },
+
+    "/upload-url": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
+      },
+      POST: withAuth(async (req, owner) => {
+        const parsed = UploadUrlSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_name, size } = parsed.data;
+        const mime_type = resolveMimeType(parsed.data.mime_type, file_name);
+        if (!ALLOWED_MIME_TYPES.includes(mime_type)) {
+          return new Response("Invalid file type. Only video, audio, images or subtitles allowed.", { status: 400, headers: CORS_HEADERS });
+        }
+
+        if (size > MAX_FILE_SIZE_UPLOAD) {
+          return new Response("File size exceeded limits", { status: 413, headers: CORS_HEADERS });
+        }
+
+        const upload = await createUpload({ method: 'presigned', file_name, mime_type, upload_length: size, owner });
+        const { url, expiresAt } = presignUpload(upload);
+
+        return Response.json({
+          fileId: upload.id,
+          uploadUrl: url,
+          method: 'PUT',
+          headers: { 'Content-Type': mime_type },
+          expiresAt,
+        }, { status: 200, headers: CORS_HEADERS });
+      }),
+    },
+
+    "/upload/:file_id/complete": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
+      },
+      POST: withAuth(async (req, owner) => {
+        const upload = await getOwnedUpload(req.params.file_id, owner, 'presigned');
+        if (!upload) return new Response("Upload not found", { status: 404, headers: CORS_HEADERS });
+
+        if (await getFile(upload.id)) {
+          return new Response("The upload was already completed", { status: 409, headers: CORS_HEADERS });
+        }
+
+        const s3File = spaces.file(getUploadKey(upload));
+        const { data: stat } = await tryCatch(s3File.stat());
+        if (!stat) {
+          return new Response("The file was not uploaded yet", { status: 409, headers: CORS_HEADERS });
+        }
+
+        // the presigned url can't limit the size, so files over the limit are dropped here
+        if (stat.size > MAX_FILE_SIZE_UPLOAD) {
+          await tryCatch(s3File.delete());
+          await deleteUpload(upload.id);
+          return new Response("File size exceeded limits", { status: 413, headers: CORS_HEADERS });
+        }
+
+        const presignedUrl = s3File.presign({ expiresIn: 60 * 5 });
+        const { data: probe } = await tryCatch(probeRemoteStreams(presignedUrl));
+        const detectedType = probe ? resolveProbedMimeType(probe.format, upload.mime_type, probe.hasVideo) : null;
+        if (!probe || !detectedType || (!probe.hasVideo && !probe.hasAudio && !probe.hasSubtitles)) {
+          await tryCatch(s3File.delete());
+          await deleteUpload(upload.id);
+          return new Response("Invalid file type. Only video, audio, images or subtitles allowed.", { status: 415, headers: CORS_HEADERS });
+        }
+
+        // a concurrent request could have registered it meanwhile
+        const { error: registerError } = await tryCatch(registerUploadedFile({ ...upload, mime_type: detectedType }));
+        if (registerError) {
+          if (await getFile(upload.id)) {
+            return new Response("The upload was already completed", { status: 409, headers: CORS_HEADERS });
+          }
+          throw registerError;
+        }
+
+        return Response.json({ fileId: upload.id, size: stat.size }, { status: 200, headers: CORS_HEADERS });
+      }),
+    },
+
+    "/uploads": {
+      OPTIONS: async () => new Response(null, { status: 204, headers: TUS_OPTIONS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        if (req.headers.get("tus-resumable") !== TUS_VERSION) {
+          return new Response("Unsupported tus version", { status: 412, headers: TUS_OPTIONS_HEADERS });
+        }
+
+        const uploadLength = Number(req.headers.get("upload-length"));
+        if (!Number.isInteger(uploadLength) || uploadLength <= 0) {
+          return new Response("Invalid Upload-Length", { status: 400, headers: TUS_HEADERS });
+        }
+
+        if (uploadLength > MAX_FILE_SIZE_UPLOAD) {
+          return new Response("File size exceeded limits", { status: 413, headers: TUS_HEADERS });
+        }
+
+        const metadata = parseUploadMetadata(req.headers.get("upload-metadata"));
+        const fileName = metadata.filename || 'upload';
+        const mimeType = resolveMimeType(metadata.filetype || Bun.file(fileName).type.split(';')[0]!, fileName);
+        if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
+          return new Response("Invalid file type. Only video, audio, images or subtitles allowed.", { status: 400, headers: TUS_HEADERS });
+        }
+
+        const upload = await createUpload({ method: 'tus', file_name: fileName, mime_type: mimeType, upload_length: uploadLength, owner });
+        return new Response(null, {
+          status: 201,
+          headers: {
+            ...TUS_HEADERS,
+            Location: new URL(`/uploads/${upload.id}`, req.url).href,
+            "Upload-Expires": getUploadExpiration(upload).toUTCString(),
+          },
+        });
+      }),
+    },
+
+    "/uploads/:upload_id": {
+      OPTIONS: async () => new Response(null, { status: 204, headers: TUS_OPTIONS_HEADERS }),
+      HEAD: withAuth(async (req, owner) => {
+        const upload = await getOwnedUpload(req.params.upload_id, owner, 'tus');
+        if (!upload) return new Response(null, { status: 404, headers: TUS_HEADERS });
+
+        return new Response(null, {
+          status: 200,
+          headers: {
+            ...TUS_HEADERS,
+            "Upload-Offset": upload.upload_offset.toString(),
+            "Upload-Length": upload.upload_length.toString(),
+            "Upload-Expires": getUploadExpiration(upload).toUTCString(),
+            "Cache-Control": "no-store",
+          },
+        });
+      }),
+      PATCH: withAuth(async (req, owner) => {
+        if (req.headers.get("tus-resumable") !== TUS_VERSION) {
+          return new Response("Unsupported tus version", { status: 412, headers: TUS_OPTIONS_HEADERS });
+        }
+
+        if (req.headers.get("content-type") !== "application/offset+octet-stream") {
+          return new Response("Invalid content type", { status: 415, headers: TUS_HEADERS });
+        }
+
+        const uploadId = req.params.upload_id;
+        if (!lockUpload(uploadId)) {
+          return new Response("Upload is already receiving data", { status: 423, headers: TUS_HEADERS });
+        }
+
+        try {
+          // read once locked, so the offset can't be moved by a request that was still running
+          const upload = await getOwnedUpload(uploadId, owner, 'tus');
+          if (!upload) return new Response("Upload not found", { status: 404, headers: TUS_HEADERS });
+
+          if (Number(req.headers.get("upload-offset")) !== upload.upload_offset) {
+            return new Response("Upload-Offset does not match", { status: 409, headers: TUS_HEADERS });
+          }
+
+          const { offset, exceeded, interrupted } = req.body
+            ? await appendToUpload(upload, req.body)
+            : { offset: upload.upload_offset, exceeded: false, interrupted: false };
+
+          const offsetHeaders = {
+            ...TUS_HEADERS,
+            "Upload-Offset": offset.toString(),
+            // the request refreshed the `updated_at` of the upload
+            "Upload-Expires": getUploadExpiration({ ...upload, updated_at: new Date().toISOString() }).toUTCString(),
+          };
+          if (exceeded) {
+            return new Response("Chunk exceeds Upload-Length", { status: 413, headers: offsetHeaders });
+          }
+
+          // the received bytes were stored, the client resumes from the offset
+          if (interrupted) {
+            console.warn(`Upload ${upload.id} was interrupted at offset ${offset}`);
+            return new Response("Upload interrupted", { status: 400, headers: offsetHeaders });
+          }
+
+          // an empty PATCH on a fully received upload retries the completion
+          if (offset === upload.upload_length) {
+            const { error } = await tryCatch(completeUpload(upload));
+            if (error) {
+              console.error(`Failed to complete upload ${upload.id}:`, error);
+              return new Response("Failed to store the upload", { status: 500, headers: offsetHeaders });
+            }
+          }
+
+          return new Response(null, { status: 204, headers: offsetHeaders });
+        } finally {
+          unlockUpload(uploadId);
+        }
+      }),
+      DELETE: withAuth(async (req, owner) => {
+        const upload = await getOwnedUpload(req.params.upload_id, owner, 'tus');
+        if (!upload) return new Response("Upload not found", { status: 404, headers: TUS_HEADERS });
+
+        if (isUploadLocked(upload.id)) {
+          return new Response("Upload is already receiving data", { status: 423, headers: TUS_HEADERS });
+        }
+
+        await deleteUpload(upload.id);
+        return new Response(null, { status: 204, headers: TUS_HEADERS });
+      }),
+    },
+
+    "/import": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
+      },
+      POST: withAuth(async (req, owner) => {
+        const parsed = ImportParams.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        // the file only gets its row once the import completes, until then its tasks show up on `/status`
+        const fileId = nanoid(8);
+        const task = await createTask(fileId, 'import', { ...parsed.data, file_id: fileId }, owner);
+
+        return Response.json({ fileId, taskId: task.id }, { status: 200, headers: CORS_HEADERS });
+      })
     },
 
     "/files": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      GET: async (req) => {
+      GET: withAuth(async (req, owner) => {
         const url = new URL(req.url);
         const searchParams = url.searchParams;
         const parent = searchParams.get('parent');
-        const parentFilter = parent ? sql`WHERE parent = ${parent}` : sql``;
-        const files = await sql`SELECT * FROM files ${parentFilter} ORDER BY created_at`;
+        const parentFilter = parent ? sql`AND parent = ${parent}` : sql``;
+        const files = await sql`SELECT * FROM files WHERE owner = ${owner} ${parentFilter} ORDER BY created_at`;
         return Response.json({ files }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/files/:file_id": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      GET: async (req: Bun.BunRequest<"/files/:file_id">) => {
+      GET: withAuth(async (req: Bun.BunRequest<"/files/:file_id">, owner) => {
         const fileId = req.params.file_id;
         if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
 
-        const [file] = await sql`SELECT * FROM files WHERE id = ${fileId}`;
+        const file = await getOwnedFile(fileId, owner);
 
         if (!file) {
           return Response.json({ file: null }, { status: 400, headers: CORS_HEADERS });
         }
 
         return Response.json({
-          file: { ...file, metadata: JSON.parse(file.metadata) },
+          file: {
+            ...file,
+            metadata: file.metadata ? JSON.parse(file.metadata) : null,
+            packaging: getFilePackaging(file),
+            scenes: getFileScenes(file),
+            silences: getFileSilences(file),
+          },
         }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/url/:file_id": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      GET: async (req: Bun.BunRequest<"/url/:file_id">) => {
+      GET: withAuth(async (req: Bun.BunRequest<"/url/:file_id">, owner) => {
         const fileId = req.params.file_id;
         if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
 
-        const dbFile = await getFile(fileId);
+        const dbFile = await getOwnedFile(fileId, owner);
         if (!dbFile) return new Response('Invalid file id', { status: 400, headers: CORS_HEADERS });
 
         const fileUrl = spaces.presign(dbFile.file_path, { acl: 'public-read' });
         return new Response(fileUrl, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/meta/:file_id": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      GET: async (req) => {
+      GET: withAuth(async (req, owner) => {
         const fileId = req.params.file_id;
         if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
 
+        const dbFile = await getOwnedFile(fileId, owner);
+        if (!dbFile) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
+
         const { data: meta, error } = await tryCatch(getFileMetadata(fileId));
         if (error) {
           return new Response("Could not resolve metadata information", { status: 401, headers: CORS_HEADERS });
         }
 
         return Response.json(meta, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/probe/:file_id": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      GET: async (req) => {
+      GET: withAuth(async (req, owner) => {
         const fileId = req.params.file_id;
         if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
 
+        const dbFile = await getOwnedFile(fileId, owner);
+        if (!dbFile) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
+
         const { data: probeData, error } = await tryCatch(probeFileContent(fileId));
 
         if (error) {
@@ -266,18 +795,19 @@ const server = serve({
         }
 
         return Response.json(probeData, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/status/:file_id": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      GET: async (req) => {
+      GET: withAuth(async (req, owner) => {
         const fileId = req.params.file_id;
         if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
 
-        const tasks = await getTasksForFileAndDecendants(fileId);
+        const fileTasks = await getTasksForFileAndDecendants(fileId);
+        const tasks = fileTasks.filter((task) => task.owner === owner);
 
         if (tasks.length === 0) {
           return Response.json({ fileId, status: 'empty' }, { status: 200, headers: CORS_HEADERS });
@@ -287,7 +817,19 @@ const server = serve({
         const isPending = tasks.some((task) => pendingStatus.includes(task.status));
 
         if (isPending) {
-          return Response.json({ fileId, status: 'processing' }, { status: 200, headers: CORS_HEADERS });
+          const processingTask = tasks.find((task) => task.status === 'processing');
+          return Response.json({
+            fileId,
+            status: 'processing',
+            progress: processingTask ? {
+              taskId: processingTask.id,
+              operation: processingTask.operation,
+              percent: processingTask.progress ?? null,
+              outTime: processingTask.out_time ?? null,
+              speed: processingTask.speed ?? null,
+              eta: processingTask.eta ?? null,
+            } : null,
+          }, { status: 200, headers: CORS_HEADERS });
         }
 
         const lastTask = tasks.at(-1)!;
@@ -296,42 +838,46 @@ const server = serve({
           return Response.json({ fileId, status: 'completed' }, { status: 200, headers: CORS_HEADERS });
         }
 
+        if (lastTask.status === 'cancelled') {
+          return Response.json({ fileId, status: 'cancelled' }, { status: 200, headers: CORS_HEADERS });
+        }
+
         const failedTasks = tasks.filter(t => t.status === 'failed');
-        const lastFailedTask = failedTasks.at(-1)!;
+        const lastFailedTask = failedTasks.at(-1);
 
         return Response.json({
           fileId,
           status: 'failed',
-          error: lastFailedTask.error ?? null,
+          error: lastFailedTask?.error ?? null,
         }, { status: 200, headers: CORS_HEADERS });
-      },
+      }),
     },
 
     "/output/:file_id": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      GET: async (req) => {
+      GET: withAuth(async (req, owner) => {
         const fileId = req.params.file_id;
         if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
 
-        const dbFile = await getFile(fileId);
+        const dbFile = await getOwnedFile(fileId, owner);
         if (!dbFile) return new Response('Invalid file id', { status: 400, headers: CORS_HEADERS });
 
         const file = spaces.file(dbFile.file_path, { acl: 'public-read' });
         return new Response(file);
-      }
+      })
     },
 
     "/download/:file_id": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      GET: async (req) => {
+      GET: withAuth(async (req, owner) => {
         const fileId = req.params.file_id;
         if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
 
-        const dbFile = await getFile(fileId);
+        const dbFile = await getOwnedFile(fileId, owner);
         if (!dbFile) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
 
         const file = spaces.file(dbFile.file_path, { acl: 'public-read' });
@@ -343,18 +889,18 @@ const server = serve({
         });
 
         return new Response(file);
-      }
+      })
     },
 
     "/delete/:file_id": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      DELETE: async (req) => {
+      DELETE: withAuth(async (req, owner) => {
         const fileId = req.params.file_id;
         if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
 
-        const dbFile = await getFile(fileId);
+        const dbFile = await getOwnedFile(fileId, owner);
         if (!dbFile) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
 
         const file = spaces.file(dbFile.file_path);
@@ -365,11 +911,17 @@ const server = serve({
           console.error(`Failed to delete DASH files for ${fileId}:`, dashError);
         }
 
+        const { error: hlsError } = await tryCatch(deleteHlsFiles(fileId));
+        if (hlsError) {
+          console.error(`Failed to delete HLS files for ${fileId}:`, hlsError);
+        }
+
         const decendants = await getDecendants(fileId);
         const delPromises = decendants.map(async (decendant) => {
           const decendantFile = spaces.file(decendant.file_path);
           if (await decendantFile.exists()) await decendantFile.delete();
           await deleteDashFiles(decendant.id);
+          await deleteHlsFiles(decendant.id);
         });
 
         const delResults = await Promise.allSettled(delPromises);
@@ -382,14 +934,14 @@ const server = serve({
         await deleteFile(fileId);
 
         return Response.json({ fileId }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/transcode": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      POST: async (req) => {
+      POST: withAuth(async (req, owner) => {
         const parsed = TranscodeSchema.safeParse(await req.json());
 
         if (!parsed.success) {
@@ -397,41 +949,101 @@ const server = serve({
         }
 
         const { file_id } = parsed.data;
-        const file = await getFile(file_id);
+        const file = await getOwnedFile(file_id, owner);
 
         if (!file || !(await spaces.file(file.file_path).exists())) {
           return new Response("File not found", { status: 404, headers: CORS_HEADERS });
         }
 
-        await createTask(file_id, 'transcode', parsed.data);
+        await createTask(file_id, 'transcode', parsed.data, owner);
         return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/resize-video": {
       OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
-      POST: async (req) => {
+      POST: withAuth(async (req, owner) => {
         const parsed = ResizeVideoSchema.safeParse(await req.json());
         if (!parsed.success) {
           return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
         }
         const { file_id } = parsed.data;
 
-        const userFile = await getFile(file_id);
+        const userFile = await getOwnedFile(file_id, owner);
+        if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
+          return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'resize-video', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/crop": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = CropSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id } = parsed.data;
+        const userFile = await getOwnedFile(file_id, owner);
+
+        if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
+          return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'crop', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/rotate": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = RotateSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id } = parsed.data;
+        const userFile = await getOwnedFile(file_id, owner);
+
+        if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
+          return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'rotate', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/change-speed": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = ChangeSpeedSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id } = parsed.data;
+        const userFile = await getOwnedFile(file_id, owner);
+
         if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
           return new Response("File not found", { status: 404, headers: CORS_HEADERS });
         }
 
-        await createTask(file_id, 'resize-video', parsed.data);
+        await createTask(file_id, 'change-speed', parsed.data, owner);
         return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/trim": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      POST: async (req) => {
+      POST: withAuth(async (req, owner) => {
         const parsed = TrimSchema.safeParse(await req.json());
 
         if (!parsed.success) {
@@ -440,162 +1052,462 @@ const server = serve({
 
         const { file_id } = parsed.data;
 
-        const userFile = await getFile(file_id);
+        const userFile = await getOwnedFile(file_id, owner);
         if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
           return new Response("File not found", { status: 404, headers: CORS_HEADERS });
         }
 
-        await createTask(file_id, 'trim', parsed.data);
+        await createTask(file_id, 'trim', parsed.data, owner);
         return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/trim-end": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      POST: async (req) => {
+      POST: withAuth(async (req, owner) => {
         const parsed = CutEndSchema.safeParse(await req.json());
         if (!parsed.success) {
           return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
         }
 
         const { file_id } = parsed.data;
-        const userFile = await getFile(file_id);
+        const userFile = await getOwnedFile(file_id, owner);
 
         if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
           return new Response('File not found', { status: 400, headers: CORS_HEADERS });
         }
 
-        await createTask(file_id, 'trim-end', parsed.data);
+        await createTask(file_id, 'trim-end', parsed.data, owner);
         return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/extract-audio": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      POST: async (req) => {
+      POST: withAuth(async (req, owner) => {
         const parsed = ExtractAudioSchema.safeParse(await req.json());
         if (!parsed.success) {
           return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
         }
 
         const { file_id } = parsed.data;
-        const userFile = await getFile(file_id);
+        const userFile = await getOwnedFile(file_id, owner);
+
+        if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
+          return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'extract-audio', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/normalize-audio": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = NormalizeAudioSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id } = parsed.data;
+        const userFile = await getOwnedFile(file_id, owner);
 
         if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
           return new Response("File not found", { status: 404, headers: CORS_HEADERS });
         }
 
-        await createTask(file_id, 'extract-audio', parsed.data);
+        await createTask(file_id, 'normalize-audio', parsed.data, owner);
         return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/remove-audio": {
       OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
-      POST: async (req) => {
+      POST: withAuth(async (req, owner) => {
         const parsed = RemoveAudioSchema.safeParse(await req.json());
         if (!parsed.success) {
           return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
         }
         const { file_id } = parsed.data;
-        if (!(await checkFilesExist([file_id]))) {
+        if (!(await checkFilesExist([file_id], owner))) {
           return new Response("File not found", { status: 404, headers: CORS_HEADERS });
         }
 
-        await createTask(file_id, 'remove-audio', parsed.data);
+        await createTask(file_id, 'remove-audio', parsed.data, owner);
         return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/add-audio": {
       OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
-      POST: async (req) => {
+      POST: withAuth(async (req, owner) => {
         const parsed = AddAudioTrackSchema.safeParse(await req.json());
         if (!parsed.success) {
           return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
         }
         const { video_file_id, audio_file_id } = parsed.data;
         // Check both files exist in one query
-        if (!(await checkFilesExist([video_file_id, audio_file_id]))) {
+        if (!(await checkFilesExist([video_file_id, audio_file_id], owner))) {
           return new Response("Video or audio file not found", { status: 404, headers: CORS_HEADERS });
         }
-        await createTask(video_file_id, 'add-audio', parsed.data);
+        await createTask(video_file_id, 'add-audio', parsed.data, owner);
         return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
+    },
+
+    "/overlay": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = OverlaySchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { video_file_id, image_file_id } = parsed.data;
+        if (!(await checkFilesExist([video_file_id, image_file_id], owner))) {
+          return new Response("Video or image file not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(video_file_id, 'overlay', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
     },
 
     "/merge": {
       OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
-      POST: async (req) => {
+      POST: withAuth(async (req, owner) => {
         const parsed = MergeMediaSchema.safeParse(await req.json());
         if (!parsed.success) {
           return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
         }
         const { file_ids } = parsed.data;
         // Check all files exist in one query
-        if (!(await checkFilesExist(file_ids))) {
+        if (!(await checkFilesExist(file_ids, owner))) {
           return new Response(`One or more files not found`, { status: 404, headers: CORS_HEADERS });
         }
-        await createTask(file_ids[0]!, 'merge-media', parsed.data);
+        await createTask(file_ids[0]!, 'merge-media', parsed.data, owner);
         return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/extract-thumbnail": {
       OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
-      POST: async (req) => {
+      POST: withAuth(async (req, owner) => {
         const parsed = ExtractThumbnailSchema.safeParse(await req.json());
         if (!parsed.success) {
           return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
         }
 
         const { file_id } = parsed.data;
-        const userFile = await getFile(file_id);
+        const userFile = await getOwnedFile(file_id, owner);
+
+        if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
+          return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'extract-thumbnail', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/make-animation": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = MakeAnimationSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id } = parsed.data;
+        const userFile = await getOwnedFile(file_id, owner);
+
+        if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
+          return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'make-animation', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/sprite-sheet": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = SpriteSheetSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id } = parsed.data;
+        const userFile = await getOwnedFile(file_id, owner);
+
+        if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
+          return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'sprite-sheet', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/waveform": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = WaveformSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id } = parsed.data;
+        const userFile = await getOwnedFile(file_id, owner);
+
+        if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
+          return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'waveform', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/sprites/:track_id/track": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      GET: async (req) => serveSpriteFile(req.params.track_id),
+    },
+
+    "/sprites/:track_id/:sheet": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      GET: async (req) => serveSpriteFile(req.params.track_id, req.params.sheet),
+    },
+
+    "/scenes": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = DetectScenesSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id } = parsed.data;
+        const userFile = await getOwnedFile(file_id, owner);
+
+        if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
+          return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'detect-scenes', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/scenes/:file_id": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      GET: withAuth(async (req, owner) => {
+        const fileId = req.params.file_id;
+        if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
+
+        const dbFile = await getOwnedFile(fileId, owner);
+        if (!dbFile) return new Response('Invalid file id', { status: 400, headers: CORS_HEADERS });
+
+        const scenes = getFileScenes(dbFile);
+        if (!scenes) return new Response("Scenes not detected yet", { status: 404, headers: CORS_HEADERS });
+
+        return Response.json({
+          fileId,
+          threshold: scenes.threshold,
+          scenes: scenes.timestamps,
+          detectedAt: scenes.detected_at,
+        }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/silences": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = DetectSilenceSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id } = parsed.data;
+        const userFile = await getOwnedFile(file_id, owner);
 
         if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
           return new Response("File not found", { status: 404, headers: CORS_HEADERS });
         }
 
-        await createTask(file_id, 'extract-thumbnail', parsed.data);
+        await createTask(file_id, 'detect-silence', parsed.data, owner);
         return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
+    },
+
+    "/silences/:file_id": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      GET: withAuth(async (req, owner) => {
+        const fileId = req.params.file_id;
+        if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
+
+        const dbFile = await getOwnedFile(fileId, owner);
+        if (!dbFile) return new Response('Invalid file id', { status: 400, headers: CORS_HEADERS });
+
+        const silences = getFileSilences(dbFile);
+        if (!silences) return new Response("Silences not detected yet", { status: 404, headers: CORS_HEADERS });
+
+        return Response.json({
+          fileId,
+          noiseFloor: silences.noise_floor,
+          minDuration: silences.min_duration,
+          silences: silences.intervals,
+          detectedAt: silences.detected_at,
+        }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/remove-silence": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = RemoveSilenceSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id } = parsed.data;
+        const userFile = await getOwnedFile(file_id, owner);
+
+        if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
+          return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'remove-silence', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/add-subtitles": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = AddSubtitlesSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id, subtitles } = parsed.data;
+        if (!(await checkFilesExist([file_id, ...subtitles.map((track) => track.file_id)], owner))) {
+          return new Response("Video or subtitle file not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'add-subtitles', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/burn-subtitles": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = BurnSubtitlesSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id, subtitle_file_id } = parsed.data;
+        const fileIds = subtitle_file_id ? [file_id, subtitle_file_id] : [file_id];
+        if (!(await checkFilesExist(fileIds, owner))) {
+          return new Response("Video or subtitle file not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'burn-subtitles', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/extract-subtitles": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = ExtractSubtitlesSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id } = parsed.data;
+        const userFile = await getOwnedFile(file_id, owner);
+
+        if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
+          return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        await createTask(file_id, 'extract-subtitles', parsed.data, owner);
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
+    },
+
+    "/hls": {
+      OPTIONS: async () => new Response('OK', { headers: CORS_HEADERS }),
+      POST: withAuth(async (req, owner) => {
+        const parsed = HlsSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const { file_id } = parsed.data;
+        const userFile = await getOwnedFile(file_id, owner);
+
+        if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
+          return new Response("File not found", { status: 404, headers: CORS_HEADERS });
+        }
+
+        const packagingConflict = getPackagingConflict(userFile, ['hls']);
+        if (packagingConflict) return packagingConflict;
+
+        await createTask(file_id, 'hls', parsed.data, owner);
+        await updateFilePackaging(file_id, 'hls', 'queued');
+        return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
+      })
     },
 
     "/chain": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      POST: async (req) => {
+      POST: withAuth(async (req, owner) => {
         const parsed = ChainSchema.safeParse(await req.json());
         if (!parsed.success) {
           return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
         }
 
         const { file_id, operations } = parsed.data;
-        const userFile = await getFile(file_id);
+        const userFile = await getOwnedFile(file_id, owner);
         if (!userFile || !(await spaces.file(userFile.file_path).exists())) {
           return new Response("File not found", { status: 404, headers: CORS_HEADERS });
         }
 
+        const packagingFormats = operations.flatMap(({ type }) => type === 'dash' || type === 'hls' ? [type] : []);
+        const packagingConflict = getPackagingConflict(userFile, packagingFormats);
+        if (packagingConflict) return packagingConflict;
+
         await bulkCreateTasks(operations.map(({ type: operation, ...args }) => ({
           file_id,
           operation,
           args: { file_id, ...args },
-        })))
+        })), owner);
+
+        for (const { type } of operations) {
+          if (type === 'dash' || type === 'hls') await updateFilePackaging(file_id, type, 'queued');
+        }
 
         return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/bulk": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      POST: async (req) => {
+      POST: withAuth(async (req, owner) => {
         const parsed = BulkSchema.safeParse(await req.json());
         if (!parsed.success) {
           return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
@@ -604,34 +1516,122 @@ const server = serve({
         const { operation, file_ids } = parsed.data;
         const { type, ...args } = operation;
 
-        if (!(await checkFilesExist(file_ids))) {
+        if (!(await checkFilesExist(file_ids, owner))) {
           return new Response(`One or more files not found`, { status: 404, headers: CORS_HEADERS });
         }
 
+        if (type === 'dash' || type === 'hls') {
+          const files = await Promise.all(file_ids.map((file_id) => getOwnedFile(file_id, owner)));
+          for (const file of files) {
+            const packagingConflict = file && getPackagingConflict(file, [type]);
+            if (packagingConflict) return packagingConflict;
+          }
+        }
+
         await bulkCreateTasks(file_ids.map((file_id) => ({
           file_id,
           operation: type,
           args: { file_id: file_id, ...args },
-        })))
+        })), owner);
+
+        if (type === 'dash' || type === 'hls') {
+          await Promise.all(file_ids.map((file_id) => updateFilePackaging(file_id, type, 'queued')));
+        }
 
         return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS });
-      }
+      })
     },
 
     "/dash/:file_id": {
       OPTIONS: async () => {
         return new Response('OK', { headers: CORS_HEADERS });
       },
-      GET: async (req) => {
+      GET: withAuth(async (req, owner) => {
+        const fileId = req.params.file_id;
+        if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
+
+        const dbFile = await getOwnedFile(fileId, owner);
+        if (!dbFile) return new Response('Invalid file id', { status: 400, headers: CORS_HEADERS });
+
+        const status = getFilePackaging(dbFile).dash ?? null;
+        return Response.json({
+          fileId,
+          status,
+          manifestUrl: status === 'ready' ? new URL(`/dash/${fileId}/manifest`, req.url).href : null,
+        }, { status: 200, headers: CORS_HEADERS });
+      }),
+      POST: withAuth(async (req, owner) => {
         const fileId = req.params.file_id;
         if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
 
-        const dbFile = await getFile(fileId);
+        // the body is optional, an empty one uses the default renditions
+        const body = await req.text();
+        const { data: json, error: jsonError } = await tryCatch(Promise.resolve().then(() => body ? JSON.parse(body) : {}));
+        if (jsonError) return new Response("Invalid JSON body", { status: 400, headers: CORS_HEADERS });
+
+        const parsed = DashSchema.safeParse({ ...json, file_id: fileId });
+        if (!parsed.success) {
+          return Response.json(parsed.error, { status: 400, headers: CORS_HEADERS });
+        }
+
+        const dbFile = await getOwnedFile(fileId, owner);
         if (!dbFile) return new Response('Invalid file id', { status: 400, headers: CORS_HEADERS });
 
-        await createTask(fileId, 'dash', { file_id: fileId });
+        const packagingConflict = getPackagingConflict(dbFile, ['dash']);
+        if (packagingConflict) return packagingConflict;
+
+        await createTask(fileId, 'dash', parsed.data, owner);
+        await updateFilePackaging(fileId, 'dash', 'queued');
         return Response.json({ success: true }, { status: 200, headers: CORS_HEADERS })
+      }),
+    },
+
+    "/dash/:file_id/manifest": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
+      },
+      GET: async (req) => serveStreamingFile(req.params.file_id, 'dash', 'manifesto.mpd'),
+    },
+
+    "/dash/:file_id/:segment": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
+      },
+      GET: async (req) => serveStreamingFile(req.params.file_id, 'dash', req.params.segment),
+    },
+
+    "/hls/:file_id": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
+      },
+      GET: withAuth(async (req, owner) => {
+        const fileId = req.params.file_id;
+        if (!fileId) return new Response("Invalid file id", { status: 400, headers: CORS_HEADERS });
+
+        const dbFile = await getOwnedFile(fileId, owner);
+        if (!dbFile) return new Response('Invalid file id', { status: 400, headers: CORS_HEADERS });
+
+        const status = getFilePackaging(dbFile).hls ?? null;
+        return Response.json({
+          fileId,
+          status,
+          playlistUrl: status === 'ready' ? new URL(`/hls/${fileId}/playlist`, req.url).href : null,
+        }, { status: 200, headers: CORS_HEADERS });
+      }),
+    },
+
+    "/hls/:file_id/playlist": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
+      },
+      GET: async (req) => serveStreamingFile(req.params.file_id, 'hls', 'playlist.m3u8'),
+    },
+
+    "/hls/:file_id/:segment": {
+      OPTIONS: async () => {
+        return new Response('OK', { headers: CORS_HEADERS });
       },
+      GET: async (req) => serveStreamingFile(req.params.file_id, 'hls', req.params.segment),
     },
   },
   fetch() {
@@ -0,0 +1,15 @@
+import { assignOwnerToUnownedFiles } from '../utils/files.ts';
+import { assignOwnerToUnownedTasks } from '../utils/tasks.ts';
+
+const [owner] = process.argv.slice(2);
+
+if (!owner) {
+  console.error('Usage: bun run owner:backfill <owner>');
+  process.exit(1);
+}
+
+// files first, so the tasks can take the owner of their file
+const files = await assignOwnerToUnownedFiles(owner);
+const tasks = await assignOwnerToUnownedTasks(owner);
+console.log(`Assigned ${files} files and ${tasks} tasks without an owner to ${owner}.`);
+process.exit(0);
@@ -0,0 +1,14 @@
+import { createApiKey } from '../utils/auth.ts';
+
+const [owner, name = 'default'] = process.argv.slice(2);
+
+if (!owner) {
+  console.error('Usage: bun run api-key:create <owner> [name]');
+  process.exit(1);
+}
+
+const key = await createApiKey(owner, name);
+console.log(`API key for ${owner} (${name}):`);
+console.log(key);
+console.log('Store it somewhere safe, it will not be shown again.');
+process.exit(0);
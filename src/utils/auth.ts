@@ -0,0 +1,47 @@
+import { sql } from 'bun';
+import { nanoid } from 'nanoid';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  owner: string;
+  key_hash: string;
+  created_at: string;
+}
+
+const API_KEY_PREFIX = 'bp_';
+
+/**
+ * Creates a new API key for the owner, only the hash gets stored
+ * so the plain key is returned once and can't be recovered later.
+ */
+export async function createApiKey(owner: ApiKey['owner'], name: ApiKey['name']) {
+  const key = `${API_KEY_PREFIX}${nanoid(32)}`;
+  await sql`INSERT INTO api_keys ${sql({
+    id: nanoid(8),
+    name,
+    owner,
+    key_hash: hashApiKey(key),
+    created_at: new Date().toISOString(),
+  })}`;
+  return key;
+}
+
+/**
+ * Resolves the owner of the API key sent on the `Authorization: Bearer <key>` header.
+ * Returns `null` when the header is missing or the key is unknown.
+ */
+export async function authenticate(req: Request) {
+  const header = req.headers.get('authorization') ?? '';
+  const [scheme, key] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !key) return null;
+
+  const [apiKey] = await sql`SELECT owner FROM api_keys WHERE key_hash = ${hashApiKey(key)}`;
+  return (apiKey as Pick<ApiKey, 'owner'> | undefined)?.owner ?? null;
+}
+
+function hashApiKey(key: string) {
+  const hasher = new Bun.CryptoHasher('sha256');
+  hasher.update(key);
+  return hasher.digest('hex');
+}
@@ -2,8 +2,13 @@ import { rm, mkdir } from 'node:fs/promises';
 
 export const TEMP_DIR = "./data/temp";
 export const META_DIR = "./data/meta";
+export const UPLOADS_DIR = "./data/uploads"; // keeps the partial resumable uploads, must survive restarts
 
 export async function initDir(dir: string) {
   await rm(dir, { force: true, recursive: true });
   await mkdir(dir, { recursive: true });
 }
+
+export async function ensureDir(dir: string) {
+  await mkdir(dir, { recursive: true });
+}
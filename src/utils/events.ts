@@ -0,0 +1,136 @@
+import type { Task } from './tasks.ts';
+import { tryCatch } from './promises.ts';
+
+export type TaskEventType =
+  | 'queued'
+  | 'processing'
+  | 'progress'
+  | 'retrying'
+  | 'completed'
+  | 'failed'
+  | 'unreachable'
+  | 'cancelled';
+
+export interface TaskEvent {
+  type: TaskEventType;
+  task_id: Task['id'];
+  file_id: Task['file_id'];
+  operation: Task['operation'];
+  status: Task['status'];
+  progress: Task['progress'];
+  out_time: Task['out_time'];
+  speed: Task['speed'];
+  eta: Task['eta'];
+  error: string | null;
+  output_file_id: string | null;
+  attempts: Task['attempts'];
+  max_attempts: Task['max_attempts'];
+  next_run_at: string | null;
+  owner: Task['owner'];
+  timestamp: string;
+}
+
+type TaskEventListener = (event: TaskEvent) => void | Promise<void>;
+
+const listeners = new Set<TaskEventListener>();
+const encoder = new TextEncoder();
+const HEARTBEAT_INTERVAL = 15_000;
+
+export function subscribeToTaskEvents(listener: TaskEventListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Notifies every subscriber (e.g. the SSE streams) about a task state transition.
+ * The task fields are merged with the given changes, so callers don't need to re-fetch the task.
+ */
+export function publishTaskEvent(type: TaskEventType, task: Task, changes: Partial<Omit<Task, 'id'>> = {}) {
+  if (listeners.size === 0) return;
+
+  const current = { ...task, ...changes };
+  const event: TaskEvent = {
+    type,
+    task_id: current.id,
+    file_id: current.file_id,
+    operation: current.operation,
+    status: current.status,
+    progress: current.progress ?? null,
+    out_time: current.out_time ?? null,
+    speed: current.speed ?? null,
+    eta: current.eta ?? null,
+    error: current.error ?? null,
+    output_file_id: current.output_file_id ?? null,
+    attempts: current.attempts,
+    max_attempts: current.max_attempts,
+    next_run_at: current.next_run_at ? new Date(current.next_run_at).toISOString() : null,
+    owner: current.owner,
+    timestamp: new Date().toISOString(),
+  };
+
+  for (const listener of listeners) {
+    void listener(event);
+  }
+}
+
+/**
+ * Creates a `text/event-stream` body that forwards the task events matching the filter.
+ * A comment is sent periodically to keep the connection from hitting the server `idleTimeout`,
+ * the subscription is dropped once the client disconnects (the stream gets cancelled).
+ */
+export function createTaskEventStream(params: {
+  filter: (event: TaskEvent) => boolean | Promise<boolean>;
+  initialEvents?: { type: string; data: unknown }[];
+}) {
+  const { filter, initialEvents = [] } = params;
+  let cleanup = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToTaskEvents(async (event) => {
+        const { data: matches } = await tryCatch(Promise.resolve(filter(event)));
+        if (!matches) return;
+        send(formatEvent(event.type, event));
+      });
+
+      const heartbeat = setInterval(() => send(': keep-alive\n\n'), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // the stream was already closed by the client
+        }
+      };
+
+      send('retry: 3000\n\n');
+      for (const initialEvent of initialEvents) {
+        send(formatEvent(initialEvent.type, initialEvent.data));
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+}
+
+function formatEvent(type: string, data: unknown) {
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,172 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import path from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import {
+  computePeaks,
+  escapeFilterValue,
+  getAspectRatioCrop,
+  getAtempoFilters,
+  getKeptSegments,
+  parseFFmpegProgress,
+} from './ffmpeg.ts';
+
+describe('getKeptSegments', () => {
+  test('keeps the whole file when there is no silence', () => {
+    expect(getKeptSegments([], 10, 0.2)).toEqual([{ start: 0, end: 10 }]);
+  });
+
+  test('keeps nothing when the whole file is silent', () => {
+    expect(getKeptSegments([{ start: 0, end: 10 }], 10, 0.2)).toEqual([]);
+  });
+
+  test('shrinks the silences by the padding on both sides', () => {
+    expect(getKeptSegments([{ start: 2, end: 5 }], 10, 0.5)).toEqual([
+      { start: 0, end: 2.5 },
+      { start: 4.5, end: 10 },
+    ]);
+  });
+
+  test('cuts the leading and trailing silences up to the edges of the file', () => {
+    expect(getKeptSegments([{ start: 0, end: 1 }, { start: 8, end: 10 }], 10, 0.25)).toEqual([{ start: 0.75, end: 8.25 }]);
+  });
+
+  test('keeps the silences shorter than twice the padding', () => {
+    expect(getKeptSegments([{ start: 3, end: 3.3 }], 10, 0.2)).toEqual([{ start: 0, end: 10 }]);
+  });
+});
+
+describe('getAspectRatioCrop', () => {
+  test('crops the sides of a wider video', () => {
+    expect(getAspectRatioCrop(1920, 1080, '9:16', 'center')).toEqual({ width: 606, height: 1080, x: 657, y: 0 });
+  });
+
+  test('crops the top and bottom of a taller video', () => {
+    expect(getAspectRatioCrop(1080, 1920, '1:1', 'center')).toEqual({ width: 1080, height: 1080, x: 0, y: 420 });
+  });
+
+  test('rounds odd sizes down to even ones', () => {
+    expect(getAspectRatioCrop(1921, 1081, '16:9', 'center')).toEqual({ width: 1920, height: 1080, x: 0, y: 0 });
+    expect(getAspectRatioCrop(641, 479, '1:1', 'center')).toEqual({ width: 478, height: 478, x: 81, y: 0 });
+  });
+
+  test('keeps the side picked by the gravity', () => {
+    expect(getAspectRatioCrop(641, 479, '1:1', 'left').x).toBe(0);
+    expect(getAspectRatioCrop(641, 479, '1:1', 'right').x).toBe(163);
+    expect(getAspectRatioCrop(480, 641, '1:1', 'top').y).toBe(0);
+    expect(getAspectRatioCrop(480, 641, '1:1', 'bottom').y).toBe(161);
+  });
+});
+
+describe('getAtempoFilters', () => {
+  test('uses a single filter between 0.5 and 2', () => {
+    expect(getAtempoFilters(1)).toBe('atempo=1');
+    expect(getAtempoFilters(0.5)).toBe('atempo=0.5');
+    expect(getAtempoFilters(2)).toBe('atempo=2');
+  });
+
+  test('chains filters for speeds below 0.5', () => {
+    expect(getAtempoFilters(0.25)).toBe('atempo=0.5,atempo=0.5');
+    expect(getAtempoFilters(0.3)).toBe('atempo=0.5,atempo=0.6');
+  });
+
+  test('chains filters for speeds above 2', () => {
+    expect(getAtempoFilters(3)).toBe('atempo=2,atempo=1.5');
+    expect(getAtempoFilters(100)).toBe('atempo=2,atempo=2,atempo=2,atempo=2,atempo=2,atempo=2,atempo=1.5625');
+  });
+});
+
+describe('escapeFilterValue', () => {
+  test('leaves plain paths untouched', () => {
+    expect(escapeFilterValue('data/temp/abc123.srt')).toBe('data/temp/abc123.srt');
+  });
+
+  test('escapes quotes for both levels', () => {
+    expect(escapeFilterValue("it's.srt")).toBe(String.raw`it\\\'s.srt`);
+  });
+
+  test('escapes colons so they cannot add filter options', () => {
+    expect(escapeFilterValue('a:force_style=x.srt')).toBe(String.raw`a\\:force_style=x.srt`);
+  });
+
+  test('escapes the filtergraph separators', () => {
+    expect(escapeFilterValue('a,b;[c].srt')).toBe(String.raw`a\,b\;\[c\].srt`);
+    expect(escapeFilterValue(String.raw`a\b.srt`)).toBe(String.raw`a\\\\b.srt`);
+  });
+});
+
+describe('parseFFmpegProgress', () => {
+  test('computes the progress and eta from the output time', () => {
+    expect(parseFFmpegProgress({ out_time_us: '5000000', speed: '2.5x' }, 20, false)).toEqual({
+      progress: 25,
+      out_time: 5,
+      speed: 2.5,
+      eta: 6,
+    });
+  });
+
+  test('falls back to out_time_ms, which is also in microseconds', () => {
+    expect(parseFFmpegProgress({ out_time_ms: '1500000' }, 3, false).out_time).toBe(1.5);
+  });
+
+  test('reports nothing before the first frame is written', () => {
+    expect(parseFFmpegProgress({ out_time_us: 'N/A', speed: 'N/A' }, 20, false)).toEqual({
+      progress: null,
+      out_time: null,
+      speed: null,
+      eta: null,
+    });
+  });
+
+  test('only reports the output time without a duration', () => {
+    expect(parseFFmpegProgress({ out_time_us: '2000000', speed: '1x' }, null, false)).toEqual({
+      progress: null,
+      out_time: 2,
+      speed: 1,
+      eta: null,
+    });
+  });
+
+  test('clamps negative times and overshoots', () => {
+    expect(parseFFmpegProgress({ out_time_us: '-23220' }, 10, false).out_time).toBe(0);
+    expect(parseFFmpegProgress({ out_time_us: '12000000', speed: '1x' }, 10, false)).toMatchObject({ progress: 100, eta: 0 });
+  });
+
+  test('completes on the last block', () => {
+    expect(parseFFmpegProgress({ out_time_us: '9000000', speed: '1x' }, 10, true)).toMatchObject({ progress: 100, eta: 0 });
+  });
+});
+
+describe('computePeaks', async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), 'bunpeg-peaks-'));
+  afterAll(() => rm(dir, { force: true, recursive: true }));
+
+  const writeSamples = async (name: string, samples: number[], extraBytes: number[] = []) => {
+    const samplesPath = path.join(dir, name);
+    const buffer = Buffer.alloc(samples.length * 2 + extraBytes.length);
+    samples.forEach((sample, i) => buffer.writeInt16LE(sample, i * 2));
+    extraBytes.forEach((byte, i) => buffer.writeUInt8(byte, samples.length * 2 + i));
+    await Bun.write(samplesPath, buffer);
+    return samplesPath;
+  };
+
+  test('returns the min and max of every pixel', async () => {
+    const samplesPath = await writeSamples('16.raw', [100, -200, 300, 50, -32768, 32767]);
+    expect(await computePeaks(samplesPath, 2, 16)).toEqual([-200, 100, 50, 300, -32768, 32767]);
+  });
+
+  test('keeps the most significant byte for 8 bit peaks', async () => {
+    const samplesPath = await writeSamples('8.raw', [-32768, 32767, 256, -257]);
+    expect(await computePeaks(samplesPath, 2, 8)).toEqual([-128, 127, -2, 1]);
+  });
+
+  test('includes the last incomplete pixel and ignores a trailing odd byte', async () => {
+    const samplesPath = await writeSamples('odd.raw', [1, 2, 3], [0xff]);
+    expect(await computePeaks(samplesPath, 2, 16)).toEqual([1, 2, 3, 3]);
+  });
+
+  test('returns no peaks for an empty file', async () => {
+    const samplesPath = await writeSamples('empty.raw', []);
+    expect(await computePeaks(samplesPath, 256, 8)).toEqual([]);
+  });
+});
@@ -1,31 +1,56 @@
 import { $ } from 'bun';
 import path from 'path';
-import { rm, mkdir, readdir } from 'node:fs/promises';
+import { rm, mkdir, readdir, rename } from 'node:fs/promises';
 import { nanoid } from 'nanoid';
 import { META_DIR, TEMP_DIR } from './dirs.ts';
-import { logTask, type Task, updateTask } from './tasks';
-import { getFile, updateFile, type UserFile } from './files';
+import { isTaskCancelled, logTask, type Task, updateTask } from './tasks';
+import { getFile, updateFile, updateFilePackaging, type FileScenes, type FileSilences, type PackagingFormat, type SilenceInterval, type UserFile } from './files';
+import { publishTaskEvent } from './events.ts';
 import {
   cleanupFile,
   downloadFromS3ToDisk,
+  handleS3Download,
   handleS3DownAndUpAppend,
+  handleS3DownAndUpMultiple,
   handleS3DownAndUpSwap,
   uploadToS3FromDisk,
   spaces,
   cleanupFiles,
 } from './s3.ts';
 import { tryCatch } from './promises.ts';
+import { ALLOWED_AUDIO_FORMATS, DEFAULT_RENDITIONS, LOUDNESS_PRESETS, SUBTITLE_EXTENSION_MIME_TYPES } from './formats.ts';
 import type {
   AddAudioTrackType,
+  AddSubtitlesType,
+  AnimationFormat,
   AudioCodec,
+  BurnSubtitlesType,
+  ChangeSpeedType,
+  CropGravity,
+  CropType,
   AudioFormat,
   CutEndType,
   DashType,
+  DetectScenesType,
+  DetectSilenceType,
   ExtractAudioType,
+  ExtractSubtitlesType,
   ExtractThumbnailType,
+  FlipDirection,
+  HlsType,
+  MakeAnimationType,
   MergeMediaType,
+  NormalizeAudioType,
+  OverlayPosition,
+  OverlayType,
   RemoveAudioType,
+  RemoveSilenceType,
+  Rendition,
   ResizeVideoType,
+  RotateType,
+  SpriteSheetType,
+  WaveformType,
+  SubtitleContainerFormat,
   TranscodeType,
   TrimType,
   VideoCodec,
@@ -80,6 +105,122 @@ export function resizeVideo(args: ResizeVideoType, task: Task) {
   });
 }
 
+export function changeSpeed(args: ChangeSpeedType, task: Task) {
+  const outputFile = args.mode === 'replace' ? `${task.code}.${args.output_format}` : `${nanoid(8)}.${args.output_format}`;
+  const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
+  return s3Operation({
+    task,
+    outputFile,
+    fileIds: [args.file_id],
+    parentFile: args.parent,
+    operation: async ({ inputPaths, outputPath }) => {
+      const inputFile = inputPaths[0]!;
+      const hasVideo = await checkFileHasVideoStream(inputFile);
+      const hasAudio = await checkFileHasAudioStream(inputFile);
+      if (!hasVideo && !hasAudio) throw new Error('File has no video or audio track');
+      if (!hasVideo && args.drop_audio) throw new Error('File has no video track, the audio can not be dropped');
+
+      const keepAudio = hasAudio && !args.drop_audio;
+      let audioFilter: string | undefined;
+      if (keepAudio && args.preserve_pitch) {
+        audioFilter = getAtempoFilters(args.factor);
+      } else if (keepAudio) {
+        // resampling plays the samples faster (or slower), which shifts the pitch like a tape would
+        const { sample_rate } = await getAudioMetadata(inputFile);
+        if (!sample_rate) throw new Error('Could not resolve the sample rate of the audio track');
+        audioFilter = `asetrate=${Math.round(sample_rate * args.factor)},aresample=${sample_rate}`;
+      }
+
+      const { data: inputDuration } = await tryCatch(getVideoDuration(inputFile));
+      return runFFmpeg([
+        '-i', inputFile,
+        ...(hasVideo ? ['-filter:v', `setpts=PTS/${args.factor}`] : []),
+        ...(audioFilter ? ['-filter:a', audioFilter] : ['-an']),
+        outputPath,
+      ], task, { duration: inputDuration ? inputDuration / args.factor : null });
+    },
+  });
+}
+
+export function cropVideo(args: CropType, task: Task) {
+  const outputFile = args.mode === 'replace' ? `${task.code}.${args.output_format}` : `${nanoid(8)}.${args.output_format}`;
+  const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
+  return s3Operation({
+    task,
+    outputFile,
+    fileIds: [args.file_id],
+    parentFile: args.parent,
+    operation: async ({ inputPaths, outputPath }) => {
+      const inputFile = inputPaths[0]!;
+      const hasVideo = await checkFileHasVideoStream(inputFile);
+      if (!hasVideo) throw new Error('File has no video track');
+
+      const { width, height } = await getVideoResolution(inputFile);
+      let rect: CropRect;
+      if (args.auto) {
+        rect = await detectCrop(inputFile, task);
+      } else if (args.aspect_ratio) {
+        rect = getAspectRatioCrop(width, height, args.aspect_ratio, args.gravity);
+      } else {
+        const cropWidth = args.width!;
+        const cropHeight = args.height!;
+        rect = {
+          width: cropWidth,
+          height: cropHeight,
+          x: args.x ?? Math.floor((width - cropWidth) / 2),
+          y: args.y ?? Math.floor((height - cropHeight) / 2),
+        };
+      }
+
+      if (rect.x < 0 || rect.y < 0 || rect.x + rect.width > width || rect.y + rect.height > height) {
+        throw new Error(`Crop ${rect.width}x${rect.height} at ${rect.x},${rect.y} is out of the ${width}x${height} video`);
+      }
+
+      await updateTask(task.id, { result: JSON.stringify({ crop: rect }) });
+      logTask(task.id, `Cropping to ${rect.width}x${rect.height} at ${rect.x},${rect.y}`);
+
+      return runFFmpeg([
+        '-i', inputFile,
+        '-vf', `crop=${rect.width}:${rect.height}:${rect.x}:${rect.y}`,
+        outputPath,
+      ], task);
+    },
+  });
+}
+
+export function rotateVideo(args: RotateType, task: Task) {
+  const outputFile = args.mode === 'replace' ? `${task.code}.${args.output_format}` : `${nanoid(8)}.${args.output_format}`;
+  const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
+  return s3Operation({
+    task,
+    outputFile,
+    fileIds: [args.file_id],
+    parentFile: args.parent,
+    operation: async ({ inputPaths, outputPath }) => {
+      const inputFile = inputPaths[0]!;
+      const hasVideo = await checkFileHasVideoStream(inputFile);
+      if (!hasVideo) throw new Error('File has no video track');
+
+      const { rotation } = await getVideoMetadata(inputFile);
+      const filters = getTransformFilters(args.angle, args.flip);
+      if (rotation === 0 && filters.length === 0) throw new Error('Video is already upright, nothing to rotate');
+
+      // ffmpeg applies the display matrix before the filters (`autorotate`) and resets it on the output,
+      // so the angle and flip are relative to what viewers see. Older muxers write the `rotate` tag instead, it's cleared too.
+      await runFFmpeg([
+        '-i', inputFile,
+        ...(filters.length > 0 ? ['-vf', filters.join(',')] : []),
+        '-metadata:s:v:0', 'rotate=0',
+        outputPath,
+      ], task);
+
+      // players would rotate the baked pixels again
+      const output = await getVideoMetadata(outputPath);
+      if (output.rotation !== 0) throw new Error(`The output still has a display rotation of ${output.rotation}°`);
+    },
+  });
+}
+
 export function trim(args: TrimType, task: Task) {
   const outputFile = args.mode === 'replace' ? `${task.code}.${args.output_format}` : `${nanoid(8)}.${args.output_format}`;
   const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
@@ -93,6 +234,7 @@ export function trim(args: TrimType, task: Task) {
       return runFFmpeg(
         ['-i', inputPaths[0]!, '-ss', args.start.toString(), '-t', args.duration.toString(), ...outputEncoding, outputPath],
         task,
+        { duration: args.duration },
       );
     },
   });
@@ -111,7 +253,7 @@ export function cutEnd(args: CutEndType, task: Task) {
       const keepDuration = totalDuration - args.duration;
       if (keepDuration <= 0) throw new Error("Resulting video would be empty");
 
-      void runFFmpeg(["-i", inputPaths[0]!, "-t", keepDuration.toFixed(2), "-c", "copy", outputPath], task);
+      return runFFmpeg(["-i", inputPaths[0]!, "-t", keepDuration.toFixed(2), "-c", "copy", outputPath], task, { duration: keepDuration });
     },
   });
 }
@@ -134,6 +276,122 @@ export function extractAudio(args: ExtractAudioType, task: Task) {
   });
 }
 
+/**
+ * Two-pass EBU R128 normalization: the first pass measures the loudness of the input,
+ * the second one applies `loudnorm` with those measurements so the gain is linear instead of dynamic.
+ */
+export async function normalizeAudio(args: NormalizeAudioType, task: Task) {
+  const format = args.output_format ?? await resolveSourceFormat(args.file_id);
+  const isAudioOutput = ALLOWED_AUDIO_FORMATS.includes(format as AudioFormat);
+  const target = { ...LOUDNESS_PRESETS[args.preset] };
+  if (args.integrated_loudness !== undefined) target.integrated_loudness = args.integrated_loudness;
+  if (args.true_peak !== undefined) target.true_peak = args.true_peak;
+  if (args.loudness_range !== undefined) target.loudness_range = args.loudness_range;
+
+  const outputFile = args.mode === 'replace' ? `${task.code}.${format}` : `${nanoid(8)}.${format}`;
+  const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
+  return s3Operation({
+    task,
+    outputFile,
+    fileIds: [args.file_id],
+    parentFile: args.parent,
+    operation: async ({ inputPaths, outputPath }) => {
+      const inputFile = inputPaths[0]!;
+      const hasAudio = await checkFileHasAudioStream(inputFile);
+      if (!hasAudio) throw new Error('File has no audio track');
+
+      const loudnorm = `loudnorm=I=${target.integrated_loudness}:TP=${target.true_peak}:LRA=${target.loudness_range}`;
+      const measured = await measureLoudness(inputFile, loudnorm, task);
+      logTask(task.id, `Measured loudness: ${measured.input_i} LUFS, ${measured.input_tp} dBTP, ${measured.input_lra} LU`);
+
+      const filter = [
+        loudnorm,
+        `measured_I=${measured.input_i}`,
+        `measured_TP=${measured.input_tp}`,
+        `measured_LRA=${measured.input_lra}`,
+        `measured_thresh=${measured.input_thresh}`,
+        `offset=${measured.target_offset}`,
+        'linear=true',
+      ].join(':');
+
+      // loudnorm resamples to 192kHz internally, so the output rate is set explicitly
+      return runFFmpeg([
+        '-i', inputFile,
+        ...(isAudioOutput ? ['-vn'] : ['-c:v', 'copy']),
+        '-af', filter,
+        '-ar', '48000',
+        ...(isAudioOutput ? getAudioCodecs(format as AudioFormat) : []),
+        outputPath,
+      ], task);
+    },
+  });
+}
+
+export function detectSilence(args: DetectSilenceType, task: Task) {
+  return handleS3Download({
+    task,
+    fileId: args.file_id,
+    operation: async ({ inputPath }) => {
+      const hasAudio = await checkFileHasAudioStream(inputPath);
+      if (!hasAudio) throw new Error('File has no audio track');
+
+      const intervals = await findSilences(inputPath, args.noise_floor, args.min_duration, task);
+      logTask(task.id, `Detected ${intervals.length} silences`);
+
+      const silences: FileSilences = {
+        noise_floor: args.noise_floor,
+        min_duration: args.min_duration,
+        intervals,
+        detected_at: new Date().toISOString(),
+      };
+      await updateFile(args.file_id, { silences: JSON.stringify(silences) });
+      await updateTask(task.id, { output_file_id: args.file_id, result: JSON.stringify({ silences: intervals.length }) });
+    },
+  });
+}
+
+/**
+ * Cuts out the silences and joins the rest, the same time ranges are selected on the video and the audio so they stay in sync.
+ * The silences are detected again on the current content, the ones stored by `detect-silence` could be stale.
+ */
+export async function removeSilence(args: RemoveSilenceType, task: Task) {
+  const format = args.output_format ?? await resolveSourceFormat(args.file_id);
+  const isAudioOutput = ALLOWED_AUDIO_FORMATS.includes(format as AudioFormat);
+
+  const outputFile = args.mode === 'replace' ? `${task.code}.${format}` : `${nanoid(8)}.${format}`;
+  const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
+  return s3Operation({
+    task,
+    outputFile,
+    fileIds: [args.file_id],
+    parentFile: args.parent,
+    operation: async ({ inputPaths, outputPath }) => {
+      const inputFile = inputPaths[0]!;
+      const hasAudio = await checkFileHasAudioStream(inputFile);
+      if (!hasAudio) throw new Error('File has no audio track');
+      const hasVideo = !isAudioOutput && await checkFileHasVideoStream(inputFile);
+
+      const duration = await getVideoDuration(inputFile);
+      const silences = await findSilences(inputFile, args.noise_floor, args.min_duration, task, duration);
+      const segments = getKeptSegments(silences, duration, args.padding);
+      if (segments.length === 0) throw new Error('The whole file is silent');
+      logTask(task.id, `Removing ${silences.length} silences, keeping ${segments.length} segments`);
+
+      const expression = segments.map(({ start, end }) => `between(t,${start},${end})`).join('+');
+      const keptDuration = segments.reduce((total, { start, end }) => total + end - start, 0);
+
+      // the timestamps are regenerated so the kept segments play back to back
+      return runFFmpeg([
+        '-i', inputFile,
+        ...(hasVideo ? ['-vf', `select='${expression}',setpts=N/FRAME_RATE/TB`] : ['-vn']),
+        '-af', `aselect='${expression}',asetpts=N/SR/TB`,
+        ...(isAudioOutput ? getAudioCodecs(format as AudioFormat) : []),
+        outputPath,
+      ], task, { duration: keptDuration });
+    },
+  });
+}
+
 export function removeAudio(args: RemoveAudioType, task: Task) {
   const outputFile = args.mode === 'replace' ? `${task.code}.${args.output_format}` : `${nanoid(8)}.${args.output_format}`;
   const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
@@ -152,6 +410,11 @@ export function removeAudio(args: RemoveAudioType, task: Task) {
   });
 }
 
+/**
+ * Adds the audio file to the video, either replacing its original audio or mixed with it.
+ * When ducking, the added track is compressed whenever the original audio is loud (e.g. someone speaks),
+ * so music under a voice-over doesn't drown it.
+ */
 export function addAudioTrack(args: AddAudioTrackType, task: Task) {
   const outputFile = args.mode === 'replace' ? `${task.code}.${args.output_format}` : `${nanoid(8)}.${args.output_format}`;
   const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
@@ -166,16 +429,48 @@ export function addAudioTrack(args: AddAudioTrackType, task: Task) {
       const hasVideo = await checkFileHasVideoStream(videoPath);
       if (!hasVideo) throw new Error('File has no video track');
 
-      const audioCodecArgs = getAudioCodecsForVideo(path.extname(audioPath) as AudioFormat, args.output_format);
-      await runFFmpeg([
+      const hasAudio = await checkFileHasAudioStream(audioPath);
+      if (!hasAudio) throw new Error('Audio file has no audio track');
+
+      const keepsOriginal = args.strategy !== 'replace' && await checkFileHasAudioStream(videoPath);
+      if (args.strategy !== 'replace' && !keepsOriginal) {
+        logTask(task.id, `The video has no audio track to ${args.strategy} with, replacing it instead`);
+      }
+
+      const videoDuration = await getVideoDuration(videoPath);
+      const trackFilters = await getAddedTrackFilters(args, audioPath, videoDuration);
+      const inputArgs = [
         '-i', videoPath,
+        ...(args.loop ? ['-stream_loop', '-1'] : []),
         '-i', audioPath,
-        '-c:v', 'copy',
-        ...audioCodecArgs,
+      ];
+
+      if (!keepsOriginal && trackFilters.length === 0) {
+        const audioCodecArgs = getAudioCodecsForVideo(path.extname(audioPath) as AudioFormat, args.output_format);
+        await runFFmpeg([
+          ...inputArgs,
+          '-c:v', 'copy',
+          ...audioCodecArgs,
+          '-map', '0:v:0',
+          '-map', '1:a:0',
+          '-shortest', outputPath,
+        ], task);
+        return;
+      }
+
+      const trackChain = `[1:a:0]${trackFilters.join(',') || 'anull'}[track]`;
+      const mixChain = keepsOriginal ? getOriginalAudioMix(args) : '';
+
+      // the mixed audio lasts as long as the original one, the added track alone is cut with the video
+      await runFFmpeg([
+        ...inputArgs,
+        '-filter_complex', [trackChain, mixChain].filter(Boolean).join(';'),
         '-map', '0:v:0',
-        '-map', '1:a:0',
-        '-shortest', outputPath,
-      ], task);
+        '-map', keepsOriginal ? '[aout]' : '[track]',
+        '-c:v', 'copy',
+        ...(keepsOriginal ? [] : ['-shortest']),
+        outputPath,
+      ], task, { duration: videoDuration });
     },
   })
 }
@@ -215,7 +510,7 @@ export function mergeMedia(args: MergeMediaType, task: Task) {
       });
 
       const filterComplex = `${filterChains.join(";")};${concatInputs.join("")}concat=n=${inputPaths.length}:v=1:a=1[outv][outa]`;
-
+      const { data: durations } = await tryCatch(Promise.all(inputPaths.map((inputPath) => getVideoDuration(inputPath))));
 
       const { error } = await tryCatch(
         runFFmpeg([
@@ -229,7 +524,7 @@ export function mergeMedia(args: MergeMediaType, task: Task) {
           "-c:a", "aac",
           "-b:a", "192k",
           outputPath,
-        ], task)
+        ], task, { duration: durations?.reduce((total, duration) => total + duration, 0) })
       );
       if (error) throw error;
     },
@@ -252,6 +547,10 @@ export async function extractThumbnail(args: ExtractThumbnailType, task: Task) {
         throw new Error('File has no video track');
       }
 
+      if (args.timestamp === 'auto') {
+        return extractRepresentativeFrame(inputFile, outputPath, task);
+      }
+
       return runFFmpeg([
         '-i', inputPaths[0]!,
         '-ss', args.timestamp,
@@ -264,10 +563,469 @@ export async function extractThumbnail(args: ExtractThumbnailType, task: Task) {
   });
 }
 
-export async function generateDashFiles(args: DashType, task: Task) {
-  const { data: file, error } = await tryCatch(getFile(args.file_id));
+/**
+ * Scores the difference between consecutive frames and keeps the timestamps going over the threshold,
+ * the cuts are stored on the file (replacing the previous detection).
+ */
+export function detectScenes(args: DetectScenesType, task: Task) {
+  return handleS3Download({
+    task,
+    fileId: args.file_id,
+    operation: async ({ inputPath }) => {
+      const hasVideo = await checkFileHasVideoStream(inputPath);
+      if (!hasVideo) throw new Error('File has no video track');
+
+      const output = await runFFmpegAnalysis([
+        '-i', inputPath,
+        '-vf', `select='gt(scene,${args.threshold})',showinfo`,
+        '-an',
+        '-f', 'null',
+        '-',
+      ], task);
+
+      const timestamps = [...output.matchAll(/Parsed_showinfo.*pts_time:\s*([\d.]+)/g)]
+        .map((match) => roundTo(parseFloat(match[1]!), 3));
+      logTask(task.id, `Detected ${timestamps.length} scene changes`);
+
+      const scenes: FileScenes = { threshold: args.threshold, timestamps, detected_at: new Date().toISOString() };
+      await updateFile(args.file_id, { scenes: JSON.stringify(scenes) });
+      await updateTask(task.id, { output_file_id: args.file_id, result: JSON.stringify({ scenes: timestamps.length }) });
+    },
+  });
+}
+
+export function makeAnimation(args: MakeAnimationType, task: Task) {
+  const outputFile = args.mode === 'replace' ? `${task.code}.${args.image_format}` : `${nanoid(8)}.${args.image_format}`;
+  const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
+  return s3Operation({
+    task,
+    outputFile,
+    fileIds: [args.file_id],
+    parentFile: args.parent,
+    operation: async ({ inputPaths, outputPath }) => {
+      const inputFile = inputPaths[0]!;
+      const hasVideo = await checkFileHasVideoStream(inputFile);
+      if (!hasVideo) throw new Error('File has no video track');
+
+      const { data: duration } = await tryCatch(getVideoDuration(inputFile));
+      if (duration && args.start >= duration) {
+        throw new Error(`Start (${args.start}s) is past the end of the video (${duration}s)`);
+      }
+
+      const scale = `fps=${args.fps},scale=${args.width}:-2:flags=lanczos`;
+      return runFFmpeg([
+        '-ss', args.start.toString(),
+        '-t', args.duration.toString(),
+        '-i', inputFile,
+        ...getAnimationArgs(args.image_format, scale),
+        '-loop', args.loop.toString(),
+        '-an',
+        outputPath,
+      ], task, { duration: duration ? Math.min(args.duration, duration - args.start) : args.duration });
+    },
+  });
+}
+
+/**
+ * Tiles a frame every `interval` seconds into as many sheets as needed, plus a WebVTT track
+ * for players to show them while scrubbing. The cues point to the sheets by their file path
+ * (e.g. `abc123.jpg#xywh=160,0,160,90`), relative urls resolved against `/sprites/:track_id/` where the track is served.
+ */
+export function generateSpriteSheet(args: SpriteSheetType, task: Task) {
+  return handleS3DownAndUpMultiple({
+    task,
+    fileId: args.file_id,
+    operation: async ({ inputPath, outputDir }) => {
+      const hasVideo = await checkFileHasVideoStream(inputPath);
+      if (!hasVideo) throw new Error('File has no video track');
+
+      const duration = await getVideoDuration(inputPath);
+      if (!Number.isFinite(duration)) throw new Error('Could not resolve the duration of the video');
+
+      const { width, height } = await getVideoResolution(inputPath);
+      const thumbWidth = args.width;
+      const thumbHeight = Math.max(2, Math.round((thumbWidth * height) / width / 2) * 2);
+
+      await runFFmpeg([
+        '-i', inputPath,
+        '-vf', `fps=1/${args.interval},scale=${thumbWidth}:${thumbHeight},tile=${args.columns}x${args.rows}`,
+        ...(args.image_format === 'webp' ? ['-c:v', 'libwebp', '-quality', '75'] : ['-q:v', '3']),
+        '-an',
+        path.join(outputDir, `sheet_%03d.${args.image_format}`),
+      ], task);
+
+      const sheetFiles = (await readdir(outputDir)).filter((file) => file.startsWith('sheet_')).sort();
+      if (sheetFiles.length === 0) throw new Error('No sprite sheet was generated');
+
+      // the sheets are renamed to their future file ids, so the track can point to them
+      const sheetPaths: string[] = [];
+      for (const sheetFile of sheetFiles) {
+        const sheetPath = path.join(outputDir, `${nanoid(8)}.${args.image_format}`);
+        await rename(path.join(outputDir, sheetFile), sheetPath);
+        sheetPaths.push(sheetPath);
+      }
+
+      const thumbsPerSheet = args.columns * args.rows;
+      const thumbCount = Math.min(Math.ceil(duration / args.interval), sheetPaths.length * thumbsPerSheet);
+      const cues = Array.from({ length: thumbCount }, (_, i) => {
+        const start = i * args.interval;
+        const end = Math.min(start + args.interval, duration);
+        const position = i % thumbsPerSheet;
+        const x = (position % args.columns) * thumbWidth;
+        const y = Math.floor(position / args.columns) * thumbHeight;
+        const sheet = path.basename(sheetPaths[Math.floor(i / thumbsPerSheet)]!);
+        return `${formatVttTimestamp(start)} --> ${formatVttTimestamp(end)}\n${sheet}#xywh=${x},${y},${thumbWidth},${thumbHeight}`;
+      });
+
+      const trackPath = path.join(outputDir, `${nanoid(8)}.vtt`);
+      await Bun.write(trackPath, `WEBVTT\n\n${cues.join('\n\n')}\n`);
+
+      return [
+        { path: trackPath, name: 'sprites.vtt' },
+        ...sheetPaths.map((sheetPath, i) => ({ path: sheetPath, name: `sprites_${i + 1}.${args.image_format}` })),
+      ];
+    },
+  });
+}
+
+/**
+ * Peaks of the audio in the audiowaveform JSON format (version 2, single channel), the one read by peaks.js or wavesurfer.js,
+ * so editors can draw the waveform without downloading the whole file. The `showwavespic` image is optional.
+ */
+export function generateWaveform(args: WaveformType, task: Task) {
+  return handleS3DownAndUpMultiple({
+    task,
+    fileId: args.file_id,
+    operation: async ({ inputPath, outputDir }) => {
+      const hasAudio = await checkFileHasAudioStream(inputPath);
+      if (!hasAudio) throw new Error('File has no audio track');
+
+      const { sample_rate } = await getAudioMetadata(inputPath);
+      const sampleRate = sample_rate ?? 44100;
+
+      // decoded to raw mono samples on disk, the peaks are computed reading them back in chunks
+      const samplesPath = path.join(outputDir, 'samples.raw');
+      await runFFmpeg([
+        '-i', inputPath,
+        '-vn',
+        '-ac', '1',
+        '-ar', `${sampleRate}`,
+        '-c:a', 'pcm_s16le',
+        '-f', 's16le',
+        samplesPath,
+      ], task);
+
+      const data = await computePeaks(samplesPath, args.samples_per_pixel, args.bits);
+      await rm(samplesPath, { force: true });
+      logTask(task.id, `Computed ${data.length / 2} peaks`);
+
+      const peaksPath = path.join(outputDir, `${nanoid(8)}.json`);
+      await Bun.write(peaksPath, JSON.stringify({
+        version: 2,
+        channels: 1,
+        sample_rate: sampleRate,
+        samples_per_pixel: args.samples_per_pixel,
+        bits: args.bits,
+        length: data.length / 2,
+        data,
+      }));
+
+      const outputs = [{ path: peaksPath, name: 'waveform.json' }];
+      if (args.image) {
+        const imagePath = path.join(outputDir, `${nanoid(8)}.png`);
+        await runFFmpeg([
+          '-i', inputPath,
+          '-filter_complex', `[0:a:0]aformat=channel_layouts=mono,showwavespic=s=${args.image_width}x${args.image_height}:colors=0x${args.color.slice(1)}`,
+          '-frames:v', '1',
+          imagePath,
+        ], task);
+        outputs.push({ path: imagePath, name: 'waveform.png' });
+      }
+
+      return outputs;
+    },
+  });
+}
+
+export function addSubtitles(args: AddSubtitlesType, task: Task) {
+  const outputFile = args.mode === 'replace' ? `${task.code}.${args.output_format}` : `${nanoid(8)}.${args.output_format}`;
+  const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
+  return s3Operation({
+    task,
+    outputFile,
+    fileIds: [args.file_id, ...args.subtitles.map((track) => track.file_id)],
+    parentFile: args.parent,
+    operation: async ({ inputPaths, outputPath }) => {
+      const [videoPath, ...subtitlePaths] = inputPaths;
+      const hasVideo = await checkFileHasVideoStream(videoPath!);
+      if (!hasVideo) throw new Error('File has no video track');
+
+      const trackArgs = args.subtitles.flatMap((track, i) => [
+        '-map', `${i + 1}:s:0`,
+        `-c:s:${i}`, getSubtitleCodec(args.output_format, subtitlePaths[i]!),
+        ...(track.language ? [`-metadata:s:s:${i}`, `language=${track.language}`] : []),
+        ...(track.title ? [`-metadata:s:s:${i}`, `title=${track.title}`] : []),
+        `-disposition:s:${i}`, track.default ? 'default' : '0',
+      ]);
+
+      return runFFmpeg([
+        '-i', videoPath!,
+        ...subtitlePaths.flatMap((subtitlePath) => ['-i', subtitlePath]),
+        '-map', '0:v',
+        '-map', '0:a?',
+        ...trackArgs,
+        '-c:v', 'copy',
+        '-c:a', 'copy',
+        outputPath,
+      ], task);
+    },
+  });
+}
+
+export function burnSubtitles(args: BurnSubtitlesType, task: Task) {
+  const outputFile = args.mode === 'replace' ? `${task.code}.${args.output_format}` : `${nanoid(8)}.${args.output_format}`;
+  const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
+  return s3Operation({
+    task,
+    outputFile,
+    fileIds: args.subtitle_file_id ? [args.file_id, args.subtitle_file_id] : [args.file_id],
+    parentFile: args.parent,
+    operation: async ({ inputPaths, outputPath }) => {
+      const videoPath = inputPaths[0]!;
+      const subtitlesPath = inputPaths[1];
+      const hasVideo = await checkFileHasVideoStream(videoPath);
+      if (!hasVideo) throw new Error('File has no video track');
+
+      if (!subtitlesPath) {
+        const subtitleStreams = await countSubtitleStreams(videoPath);
+        if (args.stream_index >= subtitleStreams) {
+          throw new Error(`File has ${subtitleStreams} subtitle tracks, can't burn track ${args.stream_index}`);
+        }
+      }
+
+      const filter = [
+        `subtitles=filename=${escapeFilterValue(subtitlesPath ?? videoPath)}`,
+        ...(subtitlesPath ? [] : [`si=${args.stream_index}`]),
+        ...(args.font_size ? [`force_style='FontSize=${args.font_size}'`] : []),
+      ].join(':');
+
+      return runFFmpeg(['-i', videoPath, '-vf', filter, outputPath], task);
+    },
+  });
+}
+
+export function extractSubtitles(args: ExtractSubtitlesType, task: Task) {
+  const outputFile = args.mode === 'replace' ? `${task.code}.${args.subtitle_format}` : `${nanoid(8)}.${args.subtitle_format}`;
+  const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
+  return s3Operation({
+    task,
+    outputFile,
+    fileIds: [args.file_id],
+    parentFile: args.parent,
+    operation: async ({ inputPaths, outputPath }) => {
+      const inputFile = inputPaths[0]!;
+      const subtitleStreams = await countSubtitleStreams(inputFile);
+      if (subtitleStreams === 0) throw new Error('File has no subtitle track');
+      if (args.stream_index >= subtitleStreams) {
+        throw new Error(`File has ${subtitleStreams} subtitle tracks, can't extract track ${args.stream_index}`);
+      }
+
+      // only text based tracks can be converted, bitmap ones (e.g. PGS or DVD) make ffmpeg fail
+      return runFFmpeg([
+        '-i', inputFile,
+        '-map', `0:s:${args.stream_index}`,
+        '-c:s', args.subtitle_format === 'vtt' ? 'webvtt' : 'srt',
+        outputPath,
+      ], task);
+    },
+  });
+}
+
+export function overlayImage(args: OverlayType, task: Task) {
+  const outputFile = args.mode === 'replace' ? `${task.code}.${args.output_format}` : `${nanoid(8)}.${args.output_format}`;
+  const s3Operation = args.mode === 'replace' ? handleS3DownAndUpSwap : handleS3DownAndUpAppend;
+  return s3Operation({
+    task,
+    outputFile,
+    parentFile: args.parent ?? args.video_file_id,
+    fileIds: [args.video_file_id, args.image_file_id],
+    operation: async ({ inputPaths, outputPath }) => {
+      const videoPath = inputPaths[0]!;
+      const imagePath = inputPaths[1]!;
+      const hasVideo = await checkFileHasVideoStream(videoPath);
+      if (!hasVideo) throw new Error('File has no video track');
+
+      const imageFilters = ['format=rgba'];
+      if (args.scale) {
+        const { width } = await getVideoResolution(videoPath);
+        imageFilters.push(`scale=${Math.max(2, Math.round(width * args.scale))}:-1`);
+      }
+      if (args.opacity < 1) {
+        imageFilters.push(`colorchannelmixer=aa=${args.opacity}`);
+      }
+
+      // an animated GIF is looped for the whole video, still images are repeated by the overlay filter itself
+      const isAnimated = path.extname(imagePath).toLowerCase() === '.gif';
+      const position = args.x !== undefined && args.y !== undefined
+        ? `${args.x}:${args.y}`
+        : getOverlayPosition(args.position, args.margin);
+
+      const overlayOptions = [
+        position,
+        ...(isAnimated ? ['shortest=1'] : []),
+        ...(args.start !== undefined || args.end !== undefined ? [`enable='${getOverlayWindow(args.start, args.end)}'`] : []),
+      ].join(':');
+
+      return runFFmpeg([
+        '-i', videoPath,
+        ...(isAnimated ? ['-ignore_loop', '0'] : []),
+        '-i', imagePath,
+        '-filter_complex', `[1:v]${imageFilters.join(',')}[img];[0:v][img]overlay=${overlayOptions}[outv]`,
+        '-map', '[outv]',
+        '-map', '0:a?',
+        outputPath,
+      ], task);
+    },
+  });
+}
+
+export function generateDashFiles(args: DashType, task: Task) {
+  const segmentDuration = 4;
+  return packageStreamingFiles({
+    task,
+    fileId: args.file_id,
+    format: 'dash',
+    renditions: args.renditions ?? DEFAULT_RENDITIONS,
+    ffmpegArgs: ({ inputPath, outputDir, renditions, hasAudio }) => [
+      '-i', inputPath,
+      ...getRenditionsArgs(renditions, segmentDuration),
+      ...renditions.flatMap((_, i) => ['-map', `[v${i}out]`]),
+      ...(hasAudio ? ['-map', '0:a:0', '-c:a', 'aac', '-b:a', '128k'] : []),
+      '-f', 'dash',
+      '-seg_duration', segmentDuration.toString(),
+      '-use_timeline', '1',
+      '-use_template', '1',
+      '-adaptation_sets', hasAudio ? 'id=0,streams=v id=1,streams=a' : 'id=0,streams=v',
+      path.join(outputDir, 'manifesto.mpd'),
+    ],
+  });
+}
+
+export function generateHlsFiles(args: HlsType, task: Task) {
+  const segmentExt = args.segment_type === 'fmp4' ? 'm4s' : 'ts';
+  return packageStreamingFiles({
+    task,
+    fileId: args.file_id,
+    format: 'hls',
+    renditions: args.renditions ?? DEFAULT_RENDITIONS,
+    ffmpegArgs: ({ inputPath, outputDir, renditions, hasAudio }) => [
+      '-i', inputPath,
+      ...getRenditionsArgs(renditions, args.segment_duration),
+      // every variant gets its own copy of the audio, as HLS variants are self-contained
+      ...renditions.flatMap((_, i) => ['-map', `[v${i}out]`, ...(hasAudio ? ['-map', '0:a:0'] : [])]),
+      ...(hasAudio ? ['-c:a', 'aac', '-b:a', '128k'] : []),
+      '-f', 'hls',
+      '-hls_time', args.segment_duration.toString(),
+      '-hls_playlist_type', 'vod',
+      '-hls_segment_type', args.segment_type,
+      ...(args.segment_type === 'fmp4' ? ['-hls_fmp4_init_filename', 'init_%v.mp4'] : []),
+      '-hls_segment_filename', path.join(outputDir, `segment_%v_%05d.${segmentExt}`),
+      '-var_stream_map', renditions.map((_, i) => hasAudio ? `v:${i},a:${i}` : `v:${i}`).join(' '),
+      '-master_pl_name', 'playlist.m3u8',
+      path.join(outputDir, 'stream_%v.m3u8'),
+    ],
+  });
+}
+
+/**
+ * Splits the video into one scaled stream per rendition (labeled `[v{index}out]`) and sets their bitrates.
+ * Keyframes are forced on every segment boundary (and scene-cut keyframes disabled)
+ * so the segments of all renditions stay aligned and players can switch between them.
+ */
+function getRenditionsArgs(renditions: Rendition[], segmentDuration: number) {
+  const splitOutputs = renditions.map((_, i) => `[v${i}]`).join('');
+  const scales = renditions.map((r, i) => `[v${i}]scale=-2:${r.height}[v${i}out]`);
+  const bitrates = renditions.flatMap((r, i) => {
+    const bitrate = parseInt(r.video_bitrate, 10);
+    return [
+      `-b:v:${i}`, `${bitrate}k`,
+      `-maxrate:v:${i}`, `${Math.round(bitrate * 1.07)}k`,
+      `-bufsize:v:${i}`, `${Math.round(bitrate * 1.5)}k`,
+    ];
+  });
+
+  return [
+    '-filter_complex', [`[0:v]split=${renditions.length}${splitOutputs}`, ...scales].join(';'),
+    '-c:v', 'libx264',
+    '-preset', 'fast',
+    ...bitrates,
+    '-force_key_frames', `expr:gte(t,n_forced*${segmentDuration})`,
+    '-sc_threshold', '0',
+  ];
+}
+
+/**
+ * Drops the renditions above the source height (no point in upscaling),
+ * if the source is smaller than every rung it gets a single rendition at its own height.
+ */
+function resolveRenditions(requested: Rendition[], sourceHeight: number | null) {
+  const sorted = [...requested]
+    .sort((a, b) => b.height - a.height)
+    .filter((r, i, arr) => arr.findIndex((other) => other.height === r.height) === i);
+
+  if (!sourceHeight) return sorted;
+
+  const fitting = sorted.filter((r) => r.height <= sourceHeight);
+  if (fitting.length > 0) return fitting;
+
+  // keep the height even, libx264 won't encode odd dimensions
+  return [{ ...sorted.at(-1)!, height: sourceHeight - (sourceHeight % 2) }];
+}
+
+async function resolveSourceHeight(file: UserFile, localPath: string) {
+  const { data: meta } = await tryCatch(Promise.resolve().then(() => JSON.parse(file.metadata ?? 'null')));
+  const storedHeight = meta?.resolution?.height;
+  if (typeof storedHeight === 'number') return storedHeight;
+
+  const { data: resolution } = await tryCatch(getVideoResolution(localPath));
+  return resolution?.height ?? null;
+}
+
+/**
+ * Builds the streaming package while keeping the `packaging` status of the file up to date.
+ */
+async function packageStreamingFiles(params: PackageStreamingParams) {
+  const { fileId, format } = params;
+
+  await updateFilePackaging(fileId, format, 'processing');
+  const { error } = await tryCatch(buildStreamingPackage(params));
+  if (error) {
+    await tryCatch(updateFilePackaging(fileId, format, 'failed'));
+    throw error;
+  }
+
+  await updateFilePackaging(fileId, format, 'ready');
+}
+
+interface PackageStreamingParams {
+  task: Task;
+  fileId: UserFile['id'];
+  format: PackagingFormat;
+  renditions: Rendition[];
+  ffmpegArgs: (context: { inputPath: string; outputDir: string; renditions: Rendition[]; hasAudio: boolean }) => string[];
+}
+
+/**
+ * Downloads the source file, runs the packaging command and uploads every generated file
+ * (manifest/playlist and segments) under the `{file_id}/{format}/` prefix.
+ */
+async function buildStreamingPackage(params: PackageStreamingParams) {
+  const { task, fileId, format } = params;
+  const label = format.toUpperCase();
+
+  const { data: file, error } = await tryCatch(getFile(fileId));
   if (error || !file) {
-    throw new Error(`Could not find file ${task.file_id}`);
+    throw new Error(`Could not find file ${fileId}`);
   }
 
   const localPath = path.join(TEMP_DIR, file.file_path);
@@ -275,37 +1033,38 @@ export async function generateDashFiles(args: DashType, task: Task) {
   if (downloadError) {
     logTask(task.id, `Failed to download file ${file.file_path} from S3`);
     await cleanupFile(localPath);
-    throw downloadError;
+    throw downloadError;
+  }
+
+  const hasVideo = await checkFileHasVideoStream(localPath);
+  if (!hasVideo) {
+    await cleanupFile(localPath);
+    throw new Error('File has no video track');
   }
 
-  const hasVideo = await checkFileHasVideoStream(localPath);
-  if (!hasVideo) throw new Error('File has no video track');
+  const hasAudio = await checkFileHasAudioStream(localPath);
+  const sourceHeight = await resolveSourceHeight(file, localPath);
+  const renditions = resolveRenditions(params.renditions, sourceHeight);
+  logTask(task.id, `Packaging ${label} renditions: ${renditions.map((r) => `${r.height}p@${r.video_bitrate}`).join(', ')}`);
 
-  const segmentsPath = path.join(TEMP_DIR, `${file.id}/dash`);
+  const segmentsPath = path.join(TEMP_DIR, `${file.id}/${format}`);
   await mkdir(segmentsPath, { recursive: true });
-  const manifestoPath = path.join(segmentsPath, 'manifesto.mpd');
 
   const { error: ffmpegError } = await tryCatch(
-    runFFmpeg([
-      '-i', localPath,
-      '-c:v', 'libx264',
-      '-c:a', 'aac',
-      '-preset', 'fast',
-      '-crf', '23',
-      '-f', 'dash',
-      '-seg_duration', '4',
-      '-use_timeline', '1',
-      '-use_template', '1',
-      '-adaptation_sets', 'id=0,streams=v id=1,streams=a',
-      manifestoPath,
-    ], task)
+    runFFmpeg(params.ffmpegArgs({ inputPath: localPath, outputDir: segmentsPath, renditions, hasAudio }), task)
   );
 
   if (ffmpegError) {
     console.error('FFmpeg error:', ffmpegError);
     await cleanupFile(localPath);
     await rm(segmentsPath, { force: true, recursive: true });
-    throw new Error(`Failed to generate DASH segments for task ${task.id}`);
+    throw new Error(`Failed to generate ${label} segments for task ${task.id}`);
+  }
+
+  if (await isTaskCancelled(task.id)) {
+    await cleanupFile(localPath);
+    await rm(segmentsPath, { force: true, recursive: true });
+    throw new Error(`Task ${task.id} was cancelled`);
   }
 
   const segmentedFiles = await readdir(segmentsPath, { withFileTypes: true });
@@ -313,11 +1072,11 @@ export async function generateDashFiles(args: DashType, task: Task) {
     if (seg.isDirectory()) continue;
 
     const segFilePath = path.join(seg.parentPath, seg.name);
-    const { error: uploadError } = await tryCatch(uploadToS3FromDisk(segFilePath, `${file.id}/dash/${seg.name}`, { acl: 'public-read' }));
+    const { error: uploadError } = await tryCatch(uploadToS3FromDisk(segFilePath, `${file.id}/${format}/${seg.name}`, { acl: 'public-read' }));
     if (uploadError) {
       await cleanupFile(localPath);
       await rm(segmentsPath, { force: true, recursive: true });
-      throw new Error(`Failed to upload DASH segments for task ${task.id}`);
+      throw new Error(`Failed to upload ${label} segments for task ${task.id}`);
     }
   }
 
@@ -328,6 +1087,41 @@ export async function generateDashFiles(args: DashType, task: Task) {
   await cleanupFile(localPath);
 }
 
+/**
+ * Identifies the streams of a remote file (e.g. a presigned url) without downloading it,
+ * ffprobe only reads as much of the file as it needs.
+ */
+export async function probeRemoteStreams(url: string) {
+  const proc = Bun.spawn([
+    "ffprobe",
+    "-v", "error",
+    "-show_entries", "stream=codec_type:format=format_name",
+    "-of", "json",
+    url,
+  ], {
+    stdout: 'pipe',
+    stderr: 'pipe',
+  });
+
+  await proc.exited;
+
+  if (proc.exitCode !== 0) {
+    const error = await new Response(proc.stderr).text();
+    throw new Error(`ffprobe failed: ${error}`);
+  }
+
+  const result = await new Response(proc.stdout).json() as any;
+  const streams = (result.streams || []) as any[];
+  const format: string | null = result.format?.format_name ?? null;
+
+  return {
+    format,
+    hasVideo: streams.some((s) => s.codec_type === 'video'),
+    hasAudio: streams.some((s) => s.codec_type === 'audio'),
+    hasSubtitles: streams.some((s) => s.codec_type === 'subtitle'),
+  };
+}
+
 /**
  * Similar to the `getFileMetadata` function, this function probes the content of a file and returns its metadata.
  * However, this functions gathers more information about the streams, keyframes... and as a result it is more expensive to run.
@@ -606,6 +1400,13 @@ export async function getLocalFileMetadata(filePath: string) {
     return { meta, mimeType };
   }
 
+  const subtitleMimeType = SUBTITLE_EXTENSION_MIME_TYPES[path.extname(filePath).toLowerCase()];
+  if (subtitleMimeType) {
+    const { data: meta, error } = await tryCatch(getSubtitleMetadata(filePath));
+    if (error) throw error;
+    return { meta, mimeType: subtitleMimeType };
+  }
+
   throw new Error(`File on ${filePath} has unknown type: ${mimeType}`);
 }
 
@@ -614,17 +1415,21 @@ async function getVideoDuration(filePath: string) {
   return parseFloat(response.text().trim());
 }
 
+/**
+ * Resolution of the video as displayed (and as seen by ffmpeg filters, which apply the rotation first).
+ */
 async function getVideoResolution(filePath: string): Promise<{ width: number, height: number }> {
-  const response = await $`ffprobe -v error -select_streams v:0 -show_entries stream=width,height -of csv=s=x:p=0 "${filePath}"`;
-  const [widthStr, heightStr] = response.text().trim().split('x');
-  const width = Number(widthStr);
-  const height = Number(heightStr);
+  const response = await $`ffprobe -v error -select_streams v:0 -show_entries stream=width,height:stream_tags=rotate:stream_side_data=rotation -of json "${filePath}"`;
+  const stream = JSON.parse(response.text()).streams?.[0];
+  const rotation = getStreamRotation(stream);
+  const width = Number(stream?.width);
+  const height = Number(stream?.height);
 
   if (isNaN(width) || isNaN(height)) {
     throw new Error('Failed to get video resolution from ffprobe');
   }
 
-  return { width, height };
+  return rotation % 180 === 0 ? { width, height } : { width: height, height: width };
 }
 
 async function getVideoMetadata(inputPath: string) {
@@ -633,7 +1438,7 @@ async function getVideoMetadata(inputPath: string) {
     "-v", "error",
     "-select_streams", "v:0",
     "-show_entries", "format=duration,bit_rate,size",
-    "-show_entries", "stream=width,height",
+    "-show_entries", "stream=width,height:stream_tags=rotate:stream_side_data=rotation",
     "-of", "json",
     inputPath,
   ], {
@@ -652,17 +1457,37 @@ async function getVideoMetadata(inputPath: string) {
   const stream = result.streams?.[0];
   const format = result.format;
 
+  const rotation = getStreamRotation(stream);
+  const width = stream?.width ? Number(stream.width) : null;
+  const height = stream?.height ? Number(stream.height) : null;
+  const isSideways = rotation % 180 !== 0;
+
   return {
     size: format?.size ? parseInt(format.size, 10) : null,
     duration: format?.duration ? parseFloat(format.duration) : null,
     bit_rate: format?.bit_rate ? parseInt(format.bit_rate, 10) : null,
+    rotation,
+    // what viewers see, e.g. portrait phone videos are usually stored as landscape with a 90° rotation
     resolution: {
-      width: stream?.width ? Number(stream.width) : null,
-      height: stream?.height ? Number(stream.height) : null,
+      width: isSideways ? height : width,
+      height: isSideways ? width : height,
     },
   };
 }
 
+/**
+ * Clockwise rotation (0, 90, 180 or 270) players apply when displaying the video,
+ * it's stored in the display matrix side data (or on the `rotate` tag by older muxers).
+ */
+function getStreamRotation(stream: any) {
+  const displayMatrix = (stream?.side_data_list as any[] | undefined)?.find((sideData) => sideData.rotation !== undefined);
+  // the display matrix rotation is counterclockwise
+  const rotation = displayMatrix ? -Number(displayMatrix.rotation) : Number(stream?.tags?.rotate ?? 0);
+  if (!Number.isFinite(rotation)) return 0;
+
+  return ((Math.round(rotation / 90) * 90) % 360 + 360) % 360;
+}
+
 async function getAudioMetadata(inputPath: string) {
   const proc = Bun.spawn([
     "ffprobe",
@@ -733,6 +1558,413 @@ async function getImageMetadata(inputPath: string) {
   };
 }
 
+async function getSubtitleMetadata(inputPath: string) {
+  const proc = Bun.spawn([
+    "ffprobe",
+    "-v", "error",
+    "-select_streams", "s:0",
+    "-show_entries", "format=duration,size",
+    "-show_entries", "stream=codec_name",
+    "-of", "json",
+    inputPath,
+  ], {
+    stdout: 'pipe',
+    stderr: 'pipe',
+  });
+
+  await proc.exited;
+
+  if (proc.exitCode !== 0) {
+    const error = await new Response(proc.stderr).text();
+    throw new Error(`ffprobe failed: ${error}`);
+  }
+
+  const result = await new Response(proc.stdout).json() as any;
+  const stream = result.streams?.[0];
+  const format = result.format;
+
+  return {
+    size: format?.size ? parseInt(format.size, 10) : null,
+    duration: format?.duration ? parseFloat(format.duration) : null,
+    codec: stream?.codec_name ?? null,
+  };
+}
+
+async function countSubtitleStreams(filePath: string) {
+  const result = await $`ffprobe -v quiet -print_format json -show_streams -select_streams s ${filePath}`.quiet();
+  const parsed = JSON.parse(result.stdout.toString());
+
+  return (parsed.streams as any[] | undefined)?.length ?? 0;
+}
+
+/**
+ * Text subtitles have to be converted to the format each container supports.
+ */
+function getSubtitleCodec(outputFormat: SubtitleContainerFormat, subtitlePath: string) {
+  switch (outputFormat) {
+    case "mp4":
+    case "mov":
+      return "mov_text";
+
+    case "webm":
+      return "webvtt";
+
+    case "mkv":
+      // MKV holds styled ASS subtitles as they are
+      return [".ass", ".ssa"].includes(path.extname(subtitlePath).toLowerCase()) ? "ass" : "srt";
+  }
+}
+
+function getAnimationArgs(format: AnimationFormat, scale: string): string[] {
+  switch (format) {
+    case "gif":
+      // a palette generated from the clip itself (instead of the generic 256 colors one) avoids banding
+      return [
+        '-filter_complex', `[0:v]${scale},split[frames][source];[source]palettegen=stats_mode=diff[palette];[frames][palette]paletteuse=dither=bayer:bayer_scale=5:diff_mode=rectangle`,
+      ];
+
+    case "webp":
+      return ['-vf', scale, '-c:v', 'libwebp_anim', '-quality', '75', '-compression_level', '6'];
+
+    case "avif":
+      return ['-vf', `${scale},format=yuv420p`, '-c:v', 'libaom-av1', '-crf', '32', '-b:v', '0', '-cpu-used', '6'];
+  }
+}
+
+/**
+ * Picks the most representative frame (`thumbnail` filter) among the first keyframes that aren't mostly black,
+ * intros and fades make the frames at fixed timestamps come out black quite often.
+ */
+async function extractRepresentativeFrame(inputPath: string, outputPath: string, task: Task) {
+  await runFFmpeg([
+    '-skip_frame', 'nokey',
+    '-i', inputPath,
+    '-vf', 'blackframe=amount=0:threshold=32,metadata=select:key=lavfi.blackframe.pblack:value=90:function=less,thumbnail=n=50',
+    '-frames:v', '1',
+    '-update', '1',
+    '-q:v', '2',
+    outputPath,
+  ], task);
+
+  // every keyframe was black, the representative one of the whole video is as good as it gets
+  if (!(await Bun.file(outputPath).exists())) {
+    await runFFmpeg([
+      '-i', inputPath,
+      '-vf', 'thumbnail=n=50',
+      '-frames:v', '1',
+      '-update', '1',
+      '-q:v', '2',
+      outputPath,
+    ], task);
+  }
+}
+
+function formatVttTimestamp(seconds: number) {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(ms).padStart(3, '0')}`;
+}
+
+function getOverlayPosition(position: OverlayPosition, margin: number) {
+  switch (position) {
+    case "top-left":
+      return `${margin}:${margin}`;
+
+    case "top-right":
+      return `W-w-${margin}:${margin}`;
+
+    case "bottom-left":
+      return `${margin}:H-h-${margin}`;
+
+    case "bottom-right":
+      return `W-w-${margin}:H-h-${margin}`;
+
+    case "center":
+      return "(W-w)/2:(H-h)/2";
+  }
+}
+
+function getOverlayWindow(start: number | undefined, end: number | undefined) {
+  if (start !== undefined && end !== undefined) return `between(t,${start},${end})`;
+  if (start !== undefined) return `gte(t,${start})`;
+  return `lte(t,${end})`;
+}
+
+/**
+ * Filters applied to the added track alone: cut (a looped track is endless), fades, volume and offset.
+ */
+async function getAddedTrackFilters(args: AddAudioTrackType, audioPath: string, videoDuration: number) {
+  const audioDuration = await getVideoDuration(audioPath);
+  const available = videoDuration - args.offset;
+  if (Number.isFinite(videoDuration) && available <= 0) throw new Error('offset is past the end of the video');
+
+  // length of the added track once placed on the video
+  const length = args.loop ? available : Math.min(audioDuration, available);
+  if (!Number.isFinite(length)) throw new Error('Could not resolve the duration of the video or the audio file');
+
+  const filters: string[] = [];
+  if (args.loop || length < audioDuration) {
+    filters.push(`atrim=end=${roundTo(length, 3)}`, 'asetpts=PTS-STARTPTS');
+  }
+  if (args.fade_in > 0) {
+    filters.push(`afade=t=in:st=0:d=${args.fade_in}`);
+  }
+  if (args.fade_out > 0) {
+    filters.push(`afade=t=out:st=${roundTo(Math.max(length - args.fade_out, 0), 3)}:d=${args.fade_out}`);
+  }
+  if (args.audio_volume !== 1) {
+    filters.push(`volume=${args.audio_volume}`);
+  }
+  if (args.offset > 0) {
+    filters.push(`adelay=${Math.round(args.offset * 1000)}:all=1`);
+  }
+
+  return filters;
+}
+
+/**
+ * Mixes the original audio of the video with the `[track]` label, `normalize=0` keeps the volumes as they are
+ * (amix scales every input down by default).
+ */
+function getOriginalAudioMix(args: AddAudioTrackType) {
+  const mix = 'amix=inputs=2:duration=first:dropout_transition=0:normalize=0[aout]';
+
+  if (args.strategy === 'duck') {
+    return [
+      `[0:a:0]volume=${args.original_volume},asplit=2[original][sidechain]`,
+      '[track][sidechain]sidechaincompress=threshold=0.03:ratio=8:attack=20:release=500[ducked]',
+      `[original][ducked]${mix}`,
+    ].join(';');
+  }
+
+  return `[0:a:0]volume=${args.original_volume}[original];[original][track]${mix}`;
+}
+
+/**
+ * Escapes a value (e.g. a file path) for a filter option and then for the filtergraph, the two levels ffmpeg parses,
+ * so characters like `'`, `:`, `\` or `,` in it can't break the filter or add options to it.
+ * https://ffmpeg.org/ffmpeg-filters.html#Notes-on-filtergraph-escaping
+ */
+export function escapeFilterValue(value: string) {
+  const optionValue = value.replace(/[\\':]/g, (char) => `\\${char}`);
+  return optionValue.replace(/[\\'\[\],;]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Min/max pairs of every `samplesPerPixel` samples of a raw `s16le` file,
+ * 8 bit peaks keep the most significant byte of the sample.
+ */
+export async function computePeaks(samplesPath: string, samplesPerPixel: number, bits: 8 | 16) {
+  const shift = bits === 8 ? 8 : 0;
+  const data: number[] = [];
+  let min = 32767;
+  let max = -32768;
+  let count = 0;
+  let leftover: Uint8Array | null = null;
+
+  for await (const bytes of Bun.file(samplesPath).stream()) {
+    // a chunk can end in the middle of a sample
+    const chunk: Uint8Array = leftover ? Buffer.concat([leftover, bytes]) : bytes;
+    const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+    const sampleCount = Math.floor(chunk.byteLength / 2);
+
+    for (let i = 0; i < sampleCount; i++) {
+      const sample = view.getInt16(i * 2, true);
+      if (sample < min) min = sample;
+      if (sample > max) max = sample;
+
+      if (++count === samplesPerPixel) {
+        data.push(min >> shift, max >> shift);
+        min = 32767;
+        max = -32768;
+        count = 0;
+      }
+    }
+
+    leftover = chunk.byteLength % 2 ? chunk.subarray(chunk.byteLength - 1) : null;
+  }
+
+  if (count > 0) data.push(min >> shift, max >> shift);
+  return data;
+}
+
+/**
+ * Format of the file as it's stored, for operations whose output keeps the format of the input by default.
+ */
+async function resolveSourceFormat(fileId: UserFile['id']) {
+  const file = await getFile(fileId);
+  if (!file) throw new Error(`File ${fileId} not found!`);
+
+  return path.extname(file.file_path).slice(1).toLowerCase();
+}
+
+async function findSilences(inputPath: string, noiseFloor: number, minDuration: number, task: Task, duration?: number) {
+  const output = await runFFmpegAnalysis([
+    '-i', inputPath,
+    '-vn',
+    '-af', `silencedetect=noise=${noiseFloor}dB:d=${minDuration}`,
+    '-f', 'null',
+    '-',
+  ], task);
+
+  const intervals: SilenceInterval[] = [];
+  let start: number | null = null;
+
+  for (const match of output.matchAll(/silence_(start|end): (-?[\d.]+)/g)) {
+    const time = Math.max(parseFloat(match[2]!), 0);
+    if (match[1] === 'start') {
+      start = time;
+    } else if (start !== null) {
+      intervals.push({ start: roundTo(start, 3), end: roundTo(time, 3) });
+      start = null;
+    }
+  }
+
+  // a silence running until the end of the file has no `silence_end`
+  if (start !== null) {
+    const end = duration ?? await getVideoDuration(inputPath);
+    if (Number.isFinite(end) && end > start) intervals.push({ start: roundTo(start, 3), end: roundTo(end, 3) });
+  }
+
+  return intervals;
+}
+
+/**
+ * Time ranges left once the silences are removed, every silence is shrunk by `padding` on both sides
+ * so the cuts don't sound abrupt (silences shorter than twice the padding are kept).
+ */
+export function getKeptSegments(silences: SilenceInterval[], duration: number, padding: number) {
+  const segments: SilenceInterval[] = [];
+  let cursor = 0;
+
+  for (const silence of silences) {
+    const cutStart = silence.start === 0 ? 0 : silence.start + padding;
+    const cutEnd = silence.end >= duration ? duration : silence.end - padding;
+    if (cutEnd <= cutStart) continue;
+
+    if (cutStart > cursor) segments.push({ start: roundTo(cursor, 3), end: roundTo(cutStart, 3) });
+    cursor = cutEnd;
+  }
+
+  if (cursor < duration) segments.push({ start: roundTo(cursor, 3), end: roundTo(duration, 3) });
+  return segments;
+}
+
+/**
+ * First pass of `loudnorm`, the measurements are printed as JSON on stderr once the whole input was read.
+ */
+async function measureLoudness(inputPath: string, loudnorm: string, task: Task) {
+  const output = await runFFmpegAnalysis(['-i', inputPath, '-vn', '-af', `${loudnorm}:print_format=json`, '-f', 'null', '-'], task);
+
+  const jsonMatch = output.match(/\{[^}]*"input_i"[^}]*\}/);
+  if (!jsonMatch) throw new Error('Failed to parse the loudness measurement');
+
+  const measured = JSON.parse(jsonMatch[0]) as Record<'input_i' | 'input_tp' | 'input_lra' | 'input_thresh' | 'target_offset', string>;
+  // silent inputs are measured as `-inf`
+  if (!Number.isFinite(parseFloat(measured.input_i))) {
+    throw new Error('File has no audible audio');
+  }
+
+  return measured;
+}
+
+interface CropRect {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Runs `cropdetect` over the keyframes of the video, with `reset=0` the detected area
+ * only grows, so dark scenes (e.g. fades) can't shrink the final rectangle.
+ */
+async function detectCrop(inputPath: string, task: Task): Promise<CropRect> {
+  const output = await runFFmpegAnalysis([
+    '-skip_frame', 'nokey',
+    '-i', inputPath,
+    '-vf', 'cropdetect=limit=24:round=2:reset=0',
+    '-an',
+    '-f', 'null',
+    '-',
+  ], task);
+
+  const matches = [...output.matchAll(/crop=(\d+):(\d+):(\d+):(\d+)/g)];
+  const last = matches.at(-1);
+  if (!last) throw new Error('Failed to detect the crop area');
+
+  const [width, height, x, y] = last.slice(1).map(Number) as [number, number, number, number];
+  return { width, height, x, y };
+}
+
+/**
+ * Largest rectangle of the requested aspect ratio that fits in the video,
+ * the gravity picks which side is kept on the axis being cropped.
+ */
+export function getAspectRatioCrop(width: number, height: number, aspectRatio: string, gravity: CropGravity): CropRect {
+  const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number) as [number, number];
+  const toEven = (value: number) => Math.floor(value / 2) * 2;
+
+  const cropWidth = width / height > ratioWidth / ratioHeight ? toEven(height * ratioWidth / ratioHeight) : toEven(width);
+  const cropHeight = width / height > ratioWidth / ratioHeight ? toEven(height) : toEven(width * ratioHeight / ratioWidth);
+
+  const centerX = Math.floor((width - cropWidth) / 2);
+  const centerY = Math.floor((height - cropHeight) / 2);
+
+  return {
+    width: cropWidth,
+    height: cropHeight,
+    x: gravity === 'left' ? 0 : gravity === 'right' ? width - cropWidth : centerX,
+    y: gravity === 'top' ? 0 : gravity === 'bottom' ? height - cropHeight : centerY,
+  };
+}
+
+function getTransformFilters(angle: RotateType['angle'], flip: FlipDirection | undefined) {
+  const filters: string[] = [];
+
+  switch (angle) {
+    case 90:
+      filters.push('transpose=clock');
+      break;
+
+    case 180:
+      filters.push('hflip', 'vflip');
+      break;
+
+    case 270:
+      filters.push('transpose=cclock');
+      break;
+  }
+
+  if (flip === 'horizontal' || flip === 'both') filters.push('hflip');
+  if (flip === 'vertical' || flip === 'both') filters.push('vflip');
+
+  return filters;
+}
+
+/**
+ * `atempo` only takes factors between 0.5 and 2 on older ffmpeg builds, so bigger changes are split in a chain.
+ */
+export function getAtempoFilters(factor: number) {
+  const filters: string[] = [];
+  let remaining = factor;
+
+  while (remaining > 2) {
+    filters.push('atempo=2');
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    filters.push('atempo=0.5');
+    remaining /= 0.5;
+  }
+  filters.push(`atempo=${roundTo(remaining, 6)}`);
+
+  return filters.join(',');
+}
+
 async function checkFileHasVideoStream(filePath: string) {
   const result = await $`ffprobe -v quiet -print_format json -show_streams ${filePath}`.quiet();
   const parsed = JSON.parse(result.stdout.toString());
@@ -843,24 +2075,45 @@ function validateMuxCombination(
   }
 }
 
-async function runFFmpeg(args: string[], task: Task) {
+interface RunFFmpegOptions {
+  /**
+   * Expected duration (in seconds) of the output, used to compute the progress of the task.
+   * Defaults to the duration of the first input.
+   */
+  duration?: number | null;
+}
+
+async function runFFmpeg(args: string[], task: Task, options: RunFFmpegOptions = {}) {
+  if (await isTaskCancelled(task.id)) {
+    throw new Error(`Task ${task.id} was cancelled`);
+  }
+
   const command = [
     'ffmpeg',
     '-threads', '0',
     '-thread_queue_size', '256',
+    '-progress', 'pipe:1',
     ...args,
   ];
   logOperation(JSON.stringify(command));
 
+  const duration = options.duration ?? await resolveInputDuration(args);
+
   const proc = Bun.spawn(command, {
-    stdout: 'inherit',
+    stdout: 'pipe',
     stderr: 'pipe',
     timeout: 1000 * 60 * 15, // 15 minutes
   });
 
   await updateTask(task.id, { pid: proc.pid });
+  const progressTracking = tryCatch(trackFFmpegProgress(proc.stdout, task, duration));
   await proc.exited;
 
+  const { error: progressError } = await progressTracking;
+  if (progressError) {
+    console.warn(`Failed to track the progress of task ${task.id}:`, progressError);
+  }
+
   if (proc.exitCode !== 0) {
     const error = await new Response(proc.stderr).text();
     logTask(task.id, `ffmpeg finished with exit code ${proc.exitCode} (${proc.signalCode})`);
@@ -878,6 +2131,123 @@ async function runFFmpeg(args: string[], task: Task) {
   logTask(task.id, 'ffmpeg finished with exit code 0');
 }
 
+/**
+ * Runs an ffmpeg pass that only analyses the input (writing to `-f null`) and returns its stderr,
+ * where the filters print their measurements. The progress is tracked like on `runFFmpeg`.
+ */
+async function runFFmpegAnalysis(args: string[], task: Task, options: RunFFmpegOptions = {}) {
+  if (await isTaskCancelled(task.id)) {
+    throw new Error(`Task ${task.id} was cancelled`);
+  }
+
+  const command = ['ffmpeg', '-progress', 'pipe:1', ...args];
+  logOperation(JSON.stringify(command));
+
+  const duration = options.duration ?? await resolveInputDuration(args);
+
+  const proc = Bun.spawn(command, {
+    stdout: 'pipe',
+    stderr: 'pipe',
+    timeout: 1000 * 60 * 15, // 15 minutes
+  });
+
+  await updateTask(task.id, { pid: proc.pid });
+  const progressTracking = tryCatch(trackFFmpegProgress(proc.stdout, task, duration));
+  // read while running, filters like `showinfo` can write a lot
+  const stderr = new Response(proc.stderr).text();
+  await proc.exited;
+
+  const { error: progressError } = await progressTracking;
+  if (progressError) {
+    console.warn(`Failed to track the progress of task ${task.id}:`, progressError);
+  }
+
+  const output = await stderr;
+  if (proc.exitCode !== 0) {
+    logTask(task.id, `ffmpeg finished with exit code ${proc.exitCode} (${proc.signalCode})`);
+    throw new Error(output);
+  }
+
+  return output;
+}
+
+async function resolveInputDuration(args: string[]) {
+  const inputIndex = args.indexOf('-i');
+  const inputPath = inputIndex === -1 ? undefined : args[inputIndex + 1];
+  if (!inputPath) return null;
+
+  const { data: duration } = await tryCatch(getVideoDuration(inputPath));
+  return duration && Number.isFinite(duration) ? duration : null;
+}
+
+const PROGRESS_UPDATE_INTERVAL = 1000;
+
+/**
+ * Reads the `key=value` blocks that ffmpeg writes to stdout when started with `-progress pipe:1`.
+ * Every block ends with a `progress=continue|end` line, at which point the task record is updated
+ * (throttled to once per second, except for the last block).
+ */
+async function trackFFmpegProgress(stdout: ReadableStream<Uint8Array>, task: Task, duration: number | null) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let block: Record<string, string> = {};
+  let lastUpdate = 0;
+
+  for await (const chunk of stdout) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const [key, value] = line.trim().split('=');
+      if (!key || value === undefined) continue;
+
+      block[key] = value;
+      if (key !== 'progress') continue;
+
+      const isLast = value === 'end';
+      if (isLast || Date.now() - lastUpdate >= PROGRESS_UPDATE_INTERVAL) {
+        lastUpdate = Date.now();
+        const progress = parseFFmpegProgress(block, duration, isLast);
+        await updateTask(task.id, progress);
+        publishTaskEvent('progress', task, { ...progress, status: 'processing' });
+      }
+      block = {};
+    }
+  }
+}
+
+export function parseFFmpegProgress(block: Record<string, string>, duration: number | null, isLast: boolean) {
+  // `out_time_ms` is actually reported in microseconds, both keys hold `N/A` until the first frame is written
+  const outTimeUs = Number(block.out_time_us ?? block.out_time_ms);
+  const outTime = Number.isFinite(outTimeUs) ? Math.max(outTimeUs / 1_000_000, 0) : null;
+  const speed = parseFloat(block.speed ?? ''); // e.g. `1.25x`
+  const hasDuration = duration !== null && duration > 0;
+
+  let progress: number | null = null;
+  let eta: number | null = null;
+
+  if (isLast) {
+    progress = 100;
+    eta = 0;
+  } else if (hasDuration && outTime !== null) {
+    progress = Math.min((outTime / duration) * 100, 100);
+    eta = speed > 0 ? Math.max((duration - outTime) / speed, 0) : null;
+  }
+
+  return {
+    progress: progress !== null ? roundTo(progress, 2) : null,
+    out_time: outTime !== null ? roundTo(outTime, 2) : null,
+    speed: Number.isFinite(speed) ? speed : null,
+    eta: eta !== null ? Math.round(eta) : null,
+  };
+}
+
+function roundTo(value: number, decimals: number) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
 export function logOperation(message: string, label = 'FFmpeg') {
   console.log(`------- ${label}: ------------`);
   console.log(message);
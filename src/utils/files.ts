@@ -7,15 +7,49 @@ export interface UserFile {
   mime_type: string;
   metadata?: string | null;
   parent?: string;
+  owner: string | null;
+  /** stringified `FilePackaging` */
+  packaging?: string | null;
+  /** stringified `FileScenes` */
+  scenes?: string | null;
+  /** stringified `FileSilences` */
+  silences?: string | null;
   created_at: string;
 }
 
+export type PackagingFormat = 'dash' | 'hls';
+export type PackagingStatus = 'queued' | 'processing' | 'ready' | 'failed';
+export type FilePackaging = Partial<Record<PackagingFormat, PackagingStatus>>;
+
+export interface FileScenes {
+  threshold: number;
+  timestamps: number[]; // seconds where a new scene starts
+  detected_at: string;
+}
+
+export interface SilenceInterval {
+  start: number;
+  end: number;
+}
+
+export interface FileSilences {
+  noise_floor: number;
+  min_duration: number;
+  intervals: SilenceInterval[];
+  detected_at: string;
+}
+
 export async function getFile(fileId: UserFile['id']) {
   const [file] = await sql`SELECT * FROM files WHERE id = ${fileId}`;
   return file as UserFile | undefined;
 }
 
-export async function createFile(newFile: Omit<UserFile, 'metadata' | 'created_at'>) {
+export async function getOwnedFile(fileId: UserFile['id'], owner: string) {
+  const [file] = await sql`SELECT * FROM files WHERE id = ${fileId} AND owner = ${owner}`;
+  return file as UserFile | undefined;
+}
+
+export async function createFile(newFile: Omit<UserFile, 'metadata' | 'packaging' | 'scenes' | 'silences' | 'created_at'>) {
   await sql`INSERT INTO files ${sql({ ...newFile, created_at: new Date().toISOString() })}`;
 }
 
@@ -23,6 +57,30 @@ export async function updateFile(fileId: UserFile['id'], file: Partial<Omit<User
   await sql`UPDATE files SET ${sql(file)} WHERE id = ${fileId}`;
 }
 
+export function getFilePackaging(file: UserFile): FilePackaging {
+  return file.packaging ? JSON.parse(file.packaging) : {};
+}
+
+export function getFileScenes(file: UserFile): FileScenes | null {
+  return file.scenes ? JSON.parse(file.scenes) : null;
+}
+
+export function getFileSilences(file: UserFile): FileSilences | null {
+  return file.silences ? JSON.parse(file.silences) : null;
+}
+
+/**
+ * Sets the status of a single streaming format, merging it in the database
+ * so concurrent updates for different formats don't overwrite each other.
+ */
+export async function updateFilePackaging(fileId: UserFile['id'], format: PackagingFormat, status: PackagingStatus) {
+  await sql`
+    UPDATE files
+    SET packaging = (COALESCE(packaging, '{}')::jsonb || jsonb_build_object(${format}::text, ${status}::text))::text
+    WHERE id = ${fileId}
+  `;
+}
+
 export async function deleteFile(fileId: UserFile['id']) {
   await sql`DELETE FROM files WHERE id = ${fileId} OR parent = ${fileId}`;
 }
@@ -32,9 +90,19 @@ export async function getDecendants(fileId: UserFile['id']) {
   return files as UserFile[];
 }
 
-export async function checkFilesExist(fileIds: string[]): Promise<boolean> {
+export async function checkFilesExist(fileIds: string[], owner: string): Promise<boolean> {
   if (fileIds.length === 0) return false;
 
-  const rows = await sql`SELECT id FROM files WHERE id IN ${sql(fileIds.map((id) => ({ id })), 'id')}`;
-  return rows.length === fileIds.length;
+  const uniqueIds = Array.from(new Set(fileIds));
+  const rows = await sql`SELECT id FROM files WHERE owner = ${owner} AND id IN ${sql(uniqueIds.map((id) => ({ id })), 'id')}`;
+  return rows.length === uniqueIds.length;
+}
+
+/**
+ * Files created before API keys existed have no owner and can't be reached by any key,
+ * they are handed over to the given owner. Returns the number of files updated.
+ */
+export async function assignOwnerToUnownedFiles(owner: string) {
+  const files = await sql`UPDATE files SET owner = ${owner} WHERE owner IS NULL RETURNING id`;
+  return files.length;
 }
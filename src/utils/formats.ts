@@ -1,4 +1,5 @@
-import type { AudioFormat, ImageFormat, VideoFormat } from './schemas.ts';
+import path from 'path';
+import type { AudioFormat, ImageFormat, LoudnessPreset, Rendition, VideoFormat } from './schemas.ts';
 
 export const VIDEO_MIME_TYPES = [
   "video/mp4",
@@ -20,7 +21,77 @@ export const AUDIO_MIME_TYPES = [
   "audio/x-wav",
 ];
 
-export const ALLOWED_MIME_TYPES = [...VIDEO_MIME_TYPES, ...AUDIO_MIME_TYPES];
+/**
+ * SVG is left out on purpose: ffmpeg can't decode it, and it would be served back as a document able to run scripts.
+ */
+export const IMAGE_MIME_TYPES = [
+  "image/jpeg",          // .jpg, .jpeg
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/avif",
+];
+
+/**
+ * Clients rarely agree on the type of subtitle files (`text/plain`, `application/octet-stream`...),
+ * so they are identified by their extension.
+ */
+export const SUBTITLE_EXTENSION_MIME_TYPES: Record<string, string> = {
+  ".srt": "application/x-subrip",
+  ".vtt": "text/vtt",
+  ".ass": "text/x-ssa",
+  ".ssa": "text/x-ssa",
+};
+
+export const SUBTITLE_MIME_TYPES = Array.from(new Set(Object.values(SUBTITLE_EXTENSION_MIME_TYPES)));
+
+export const ALLOWED_MIME_TYPES = [...VIDEO_MIME_TYPES, ...AUDIO_MIME_TYPES, ...IMAGE_MIME_TYPES, ...SUBTITLE_MIME_TYPES];
+
+/**
+ * Resolves the mime type sent by the client, falling back to the subtitle type of the file extension.
+ */
+export function resolveMimeType(mimeType: string, fileName: string) {
+  if (ALLOWED_MIME_TYPES.includes(mimeType)) return mimeType;
+  return SUBTITLE_EXTENSION_MIME_TYPES[path.extname(fileName).toLowerCase()] ?? mimeType;
+}
+
+/**
+ * Mime types of the ffprobe demuxers (its `format_name`), demuxers shared by several containers
+ * list the video types first and the audio ones after.
+ */
+const PROBED_FORMAT_MIME_TYPES: Record<string, string[]> = {
+  "mov,mp4,m4a,3gp,3g2,mj2": ["video/mp4", "video/quicktime", "image/avif", "audio/mp4"],
+  "matroska,webm": ["video/x-matroska", "video/webm", "audio/webm"],
+  "avi": ["video/x-msvideo"],
+  "mpeg": ["video/mpeg"],
+  "mp3": ["audio/mpeg"],
+  "aac": ["audio/aac"],
+  "ogg": ["audio/ogg"],
+  "wav": ["audio/wav", "audio/x-wav"],
+  "flac": ["audio/flac"],
+  "image2": ["image/jpeg", "image/png", "image/webp", "image/gif"],
+  "jpeg_pipe": ["image/jpeg"],
+  "png_pipe": ["image/png"],
+  "webp_pipe": ["image/webp"],
+  "gif": ["image/gif"],
+  "srt": ["application/x-subrip"],
+  "webvtt": ["text/vtt"],
+  "ass": ["text/x-ssa"],
+};
+
+/**
+ * Resolves the mime type of a file from what ffprobe found in it, rather than trusting the client.
+ * The declared type is kept when it matches the container, `null` means the container isn't supported.
+ */
+export function resolveProbedMimeType(formatName: string | null, declaredType: string, hasVideo: boolean) {
+  const candidates = formatName ? PROBED_FORMAT_MIME_TYPES[formatName] : undefined;
+  if (!candidates) return null;
+  if (candidates.includes(declaredType)) return declaredType;
+
+  return (hasVideo ? candidates[0] : candidates.find((type) => type.startsWith('audio/'))) ?? candidates[0]!;
+}
+
+export const MAX_FILE_SIZE_UPLOAD = Number(process.env.MAX_FILE_SIZE_UPLOAD);
 
 export const ALLOWED_VIDEO_FORMATS: VideoFormat[] = [
   "mp4",
@@ -48,3 +119,18 @@ export const ALLOWED_IMAGE_EXTENSIONS: ImageFormat[] = [
   "avif",
   "svg",
 ];
+
+export const DEFAULT_RENDITIONS: Rendition[] = [
+  { height: 1080, video_bitrate: "5000k" },
+  { height: 720, video_bitrate: "2800k" },
+  { height: 480, video_bitrate: "1400k" },
+  { height: 360, video_bitrate: "800k" },
+];
+
+/**
+ * EBU R128 targets: `-16 LUFS` is the usual loudness for podcasts and streaming, `-23 LUFS` the broadcast standard.
+ */
+export const LOUDNESS_PRESETS: Record<LoudnessPreset, { integrated_loudness: number; true_peak: number; loudness_range: number }> = {
+  podcast: { integrated_loudness: -16, true_peak: -1.5, loudness_range: 11 },
+  broadcast: { integrated_loudness: -23, true_peak: -1, loudness_range: 7 },
+};
@@ -0,0 +1,162 @@
+import path from 'path';
+import { createFile } from './files.ts';
+import { isTaskCancelled, logTask, type Task, updateTask } from './tasks.ts';
+import { spaces } from './s3.ts';
+import { after } from './queue-bg.ts';
+import { updateFileMetadata } from './ffmpeg.ts';
+import { tryCatch, withTimeout } from './promises.ts';
+import { assertPublicUrl } from './network.ts';
+import { ALLOWED_MIME_TYPES, MAX_FILE_SIZE_UPLOAD, resolveMimeType } from './formats.ts';
+import type { ImportType } from './schemas.ts';
+
+const CANCEL_CHECK_INTERVAL = 5000;
+const RESPONSE_TIMEOUT = 30_000; // to connect and receive the response headers
+const STALL_TIMEOUT = 60_000; // without receiving any data while streaming the body
+const MAX_REDIRECTS = 5;
+
+/**
+ * Streams a remote file into S3 applying the same checks as `/upload`,
+ * the `files` row is only created once the whole file was stored.
+ */
+export async function importFromUrl(args: ImportType, task: Task) {
+  const response = await fetchPublicUrl(args.url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to fetch ${args.url}, responded with status ${response.status}`);
+  }
+
+  const contentLength = Number(response.headers.get('content-length'));
+  if (contentLength > MAX_FILE_SIZE_UPLOAD) {
+    await response.body.cancel();
+    throw new Error('File size exceeded limits');
+  }
+
+  const fileName = args.file_name ?? resolveFileName(args.url);
+  const mimeType = resolveImportMimeType(response.headers.get('content-type'), fileName);
+  if (!mimeType) {
+    await response.body.cancel();
+    throw new Error('Invalid file type. Only video, audio, images or subtitles allowed.');
+  }
+
+  const ext = path.extname(fileName) || '.unknown';
+  const fileKey = `${args.file_id}${ext}`;
+  const s3File = spaces.file(fileKey);
+
+  const { error: writeError } = await tryCatch(streamToS3(response.body, s3File, task));
+  if (writeError) {
+    await tryCatch(s3File.delete());
+    throw writeError;
+  }
+
+  logTask(task.id, `Imported ${args.url} as ${fileKey}`);
+  await createFile({ id: args.file_id, file_name: fileName, file_path: fileKey, mime_type: mimeType, owner: task.owner });
+  await updateTask(task.id, { output_file_id: args.file_id });
+
+  after(async () => {
+    await updateFileMetadata(args.file_id);
+  });
+}
+
+/**
+ * Fetches the url following its redirects by hand, so every hop is checked to not point to a private address.
+ * The timeout only covers getting the response headers, the body is watched for stalls by `streamToS3`.
+ */
+async function fetchPublicUrl(url: string) {
+  let currentUrl = url;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await assertPublicUrl(currentUrl);
+
+    const request = fetch(currentUrl, { redirect: 'manual' });
+    const { data: response, error } = await tryCatch(
+      withTimeout(request, RESPONSE_TIMEOUT, `${currentUrl} did not respond in ${RESPONSE_TIMEOUT / 1000}s`)
+    );
+    if (error) {
+      // the origin could still answer later, its body must not be left open
+      void request.then((lateResponse) => lateResponse.body?.cancel(), () => {});
+      throw error;
+    }
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+
+    await response.body?.cancel();
+    currentUrl = new URL(location, currentUrl).href;
+  }
+
+  throw new Error(`Too many redirects fetching ${url}`);
+}
+
+async function streamToS3(body: ReadableStream<Uint8Array>, s3File: Bun.S3File, task: Task) {
+  const writer = s3File.writer({
+    partSize: 5 * 1024 * 1024,
+    queueSize: 10,
+    retry: 3,
+  });
+
+  let importedSize = 0;
+  let lastCancelCheck = Date.now();
+  let abortReason: string | undefined;
+
+  const reader = body.getReader();
+
+  while (true) {
+    // the origin could keep the connection open without sending anything
+    const { data: result, error: readError } = await tryCatch(
+      withTimeout(reader.read(), STALL_TIMEOUT, `No data received for ${STALL_TIMEOUT / 1000}s`)
+    );
+    if (readError) {
+      abortReason = readError.message;
+      break;
+    }
+    if (result.done) break;
+
+    const chunk = result.value;
+    importedSize += chunk.length;
+
+    // the content-length header is optional, so the limit is also enforced while streaming
+    if (importedSize > MAX_FILE_SIZE_UPLOAD) {
+      abortReason = 'File size exceeded limits';
+      break;
+    }
+
+    if (Date.now() - lastCancelCheck > CANCEL_CHECK_INTERVAL) {
+      lastCancelCheck = Date.now();
+      if (await isTaskCancelled(task.id)) {
+        abortReason = `Task ${task.id} was cancelled`;
+        break;
+      }
+    }
+
+    writer.write(chunk);
+  }
+
+  // stops downloading the rest of the body
+  if (abortReason) await tryCatch(reader.cancel());
+
+  await writer.end();
+
+  if (!abortReason && await isTaskCancelled(task.id)) {
+    abortReason = `Task ${task.id} was cancelled`;
+  }
+
+  if (abortReason) throw new Error(abortReason);
+}
+
+function resolveFileName(url: string) {
+  const name = path.basename(decodeURIComponent(new URL(url).pathname));
+  return name || 'import';
+}
+
+/**
+ * Servers (and buckets) often send a generic `application/octet-stream`,
+ * in that case the mime type is guessed from the file extension.
+ */
+function resolveImportMimeType(contentType: string | null, fileName: string) {
+  const headerType = contentType?.split(';')[0]?.trim().toLowerCase();
+  if (headerType && ALLOWED_MIME_TYPES.includes(headerType)) return headerType;
+
+  const extensionType = resolveMimeType(Bun.file(fileName).type.split(';')[0]!, fileName);
+  if (ALLOWED_MIME_TYPES.includes(extensionType)) return extensionType;
+
+  return null;
+}
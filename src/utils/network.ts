@@ -0,0 +1,90 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+/**
+ * IPv4 ranges a user supplied url must not reach: "this" network, private, CGNAT, loopback,
+ * link-local (e.g. the cloud metadata endpoints), protocol assignments, benchmarking, multicast and reserved.
+ */
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+/**
+ * `true` for `localhost` and for literal loopback, private or link-local addresses,
+ * hostnames are only checked once resolved (see `assertPublicUrl`).
+ */
+export function isPrivateHostname(hostname: string) {
+  const host = stripBrackets(hostname).toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) return true;
+  return isIP(host) !== 0 && isPrivateAddress(host);
+}
+
+/**
+ * Synchronous check for the schemas: an http(s) url whose host isn't private at first sight.
+ */
+export function isPublicHttpUrl(url: string) {
+  if (!URL.canParse(url)) return false;
+  const { protocol, hostname } = new URL(url);
+  return ['http:', 'https:'].includes(protocol) && !isPrivateHostname(hostname);
+}
+
+/**
+ * Throws if the host of the url is, or resolves to, a private address,
+ * so the urls sent by the clients can't be used to reach the internal network.
+ */
+export async function assertPublicUrl(url: string | URL) {
+  const { hostname } = new URL(url);
+  if (isPrivateHostname(hostname)) {
+    throw new Error(`${hostname} is not a public address`);
+  }
+
+  const host = stripBrackets(hostname);
+  if (isIP(host) !== 0) return;
+
+  const addresses = await lookup(host, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`${hostname} resolves to a private address`);
+  }
+}
+
+function isPrivateAddress(address: string) {
+  return isIP(address) === 4 ? isPrivateIPv4(address) : isPrivateIPv6(address);
+}
+
+function isPrivateIPv4(address: string) {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4_RANGES.some(([base, prefix]) => {
+    const start = ipv4ToNumber(base);
+    return value >= start && value < start + 2 ** (32 - prefix);
+  });
+}
+
+/**
+ * Addresses starting with a zero group (unspecified, loopback, IPv4 mapped or compatible) are all rejected,
+ * along with unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8) ones.
+ */
+function isPrivateIPv6(address: string) {
+  const firstGroup = parseInt(address.toLowerCase().split(':')[0] || '0', 16);
+  return firstGroup === 0
+    || (firstGroup & 0xfe00) === 0xfc00
+    || (firstGroup & 0xffc0) === 0xfe80
+    || (firstGroup & 0xff00) === 0xff00;
+}
+
+function ipv4ToNumber(address: string) {
+  return address.split('.').reduce((total, octet) => total * 256 + Number(octet), 0);
+}
+
+function stripBrackets(hostname: string) {
+  return hostname.replace(/^\[|\]$/g, '');
+}
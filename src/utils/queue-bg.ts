@@ -46,8 +46,8 @@ async function executeTask(task: BgTask) {
     console.error(error);
   }
   activeTasks.delete(task.id);
-  const taskIndex = tasks.findIndex(task => task.id === task.id);
-  tasks.splice(taskIndex, 1);
+  const taskIndex = tasks.findIndex(t => t.id === task.id);
+  if (taskIndex !== -1) tasks.splice(taskIndex, 1);
 }
 
 export function after(fn: () => Promise<void>) {
@@ -1,29 +1,78 @@
 import { tryCatch } from './promises.ts';
-import { getNextPendingTasks, markPendingTasksForFileAsUnreachable, type Task, updateTask } from './tasks.ts';
+import {
+  cancelPendingTask,
+  countPendingTasksForFile,
+  finishProcessingTask,
+  getNextPendingTasks,
+  getRetryDelay,
+  getTask,
+  isTaskCancelled,
+  markPendingTasksForFileAsUnreachable,
+  requeueFailedTask,
+  reviveUnreachableTasks,
+  scheduleTaskRetry,
+  startQueuedTask,
+  type Task,
+} from './tasks.ts';
 import {
   addAudioTrack,
+  addSubtitles,
+  burnSubtitles,
+  changeSpeed,
+  cropVideo,
   cutEnd,
+  detectScenes,
+  detectSilence,
   extractAudio,
+  extractSubtitles,
   extractThumbnail,
   generateDashFiles,
+  generateHlsFiles,
+  generateSpriteSheet,
+  generateWaveform,
+  makeAnimation,
   mergeMedia,
+  normalizeAudio,
+  overlayImage,
   removeAudio,
+  removeSilence,
   resizeVideo,
+  rotateVideo,
   transcode,
   trim,
 } from './ffmpeg.ts';
 import {
   AddAudioTrackSchema,
+  AddSubtitlesSchema,
+  BurnSubtitlesSchema,
+  ChangeSpeedSchema,
+  CropSchema,
   CutEndSchema,
   DashSchema,
+  DetectScenesSchema,
+  DetectSilenceSchema,
   ExtractAudioSchema,
+  ExtractSubtitlesSchema,
   ExtractThumbnailSchema,
+  HlsSchema,
+  ImportSchema,
+  MakeAnimationSchema,
   MergeMediaSchema,
+  NormalizeAudioSchema,
+  OverlaySchema,
   RemoveAudioSchema,
+  RemoveSilenceSchema,
   ResizeVideoSchema,
+  RotateSchema,
+  SpriteSheetSchema,
   TranscodeSchema,
   TrimSchema,
+  WaveformSchema,
 } from './schemas.ts';
+import { importFromUrl } from './import.ts';
+import { sendTaskWebhook } from './webhooks.ts';
+import { publishTaskEvent } from './events.ts';
+import { updateFilePackaging } from './files.ts';
 
 const MAX_CONCURRENT_TASKS = Number(process.env.MAX_CONCURRENT_TASKS);
 
@@ -79,20 +128,43 @@ async function executePass() {
   }
 }
 
-async function start_task(task: Task) {
+async function start_task(queuedTask: Task) {
+  const attempts = queuedTask.attempts + 1;
+  const task = await startQueuedTask(queuedTask.id, attempts);
+  if (!task) {
+    logQueueMessage(`Skipping task: ${queuedTask.id}, it is no longer queued`);
+    return;
+  }
+
   logQueueMessage(`Picking up task: ${task.id} to ${task.operation}`);
-  updateTask(task.id, { status: 'processing' });
+  publishTaskEvent('processing', task);
   activeTasks.add(task.id);
   lockedFiles.add(task.file_id);
 
   const { error: operationError } = await tryCatch(runOperation(task));
-  if (operationError) {
-    await updateTask(task.id, { status: "failed", error: operationError.message });
-    // await updateTask(task.id, { status: "failed", error: encodeURI(operationError.message) });
-    await markPendingTasksForFileAsUnreachable(task.file_id);
+  if (operationError && await isTaskCancelled(task.id)) {
+    logQueueMessage(`Cancelled task: ${task.id}`);
+  } else if (operationError && attempts < task.max_attempts) {
+    const delay = getRetryDelay(attempts);
+    logQueueError(`Failed attempt ${attempts}/${task.max_attempts} of task: ${task.id}, retrying in ${delay / 1000}s`, operationError);
+    const retryingTask = await scheduleTaskRetry(task.id, operationError.message, new Date(Date.now() + delay));
+    if (retryingTask) {
+      await markPackagingQueued(retryingTask);
+      publishTaskEvent('retrying', retryingTask);
+    }
+  } else if (operationError) {
     logQueueError(`Failed to process task: ${task.id}`, operationError);
+    const failedTask = await finishProcessingTask(task.id, 'failed', operationError.message);
+    if (failedTask) {
+      await markPackagingFailed(task);
+      await notifyTaskFinished(task.id);
+      await markFollowingTasksUnreachable(task);
+    }
   } else {
-    await updateTask(task.id, { status: 'completed' });
+    const completedTask = await finishProcessingTask(task.id, 'completed');
+    if (completedTask) {
+      await notifyTaskFinished(task.id);
+    }
   }
 
   activeTasks.delete(task.id);
@@ -104,6 +176,86 @@ async function start_task(task: Task) {
   }
 }
 
+/**
+ * The tasks queued behind a failed or cancelled task of the file would run on the untransformed input.
+ */
+async function markFollowingTasksUnreachable(task: Task) {
+  const unreachableTasks = await markPendingTasksForFileAsUnreachable(task.file_id, task.id);
+  for (const unreachableTask of unreachableTasks) {
+    await markPackagingFailed(unreachableTask);
+    publishTaskEvent('unreachable', unreachableTask);
+    sendTaskWebhook(unreachableTask, true);
+  }
+}
+
+async function notifyTaskFinished(taskId: Task['id']) {
+  const { data: finishedTask, error } = await tryCatch(getTask(taskId));
+  if (error || !finishedTask) return;
+
+  publishTaskEvent(finishedTask.status === 'completed' ? 'completed' : 'failed', finishedTask);
+
+  const pendingTasks = await countPendingTasksForFile(finishedTask.file_id);
+  sendTaskWebhook(finishedTask, pendingTasks === 0);
+}
+
+/**
+ * Cancels a queued or processing task.
+ * If the task is running on this instance, its ffmpeg process gets killed,
+ * the S3 handlers will then skip uploading or swapping any (partial) output.
+ * The tasks queued behind it for the same file become `unreachable`.
+ */
+export async function cancelTask(taskId: Task['id']) {
+  const task = await cancelPendingTask(taskId);
+  if (!task) return null;
+
+  if (task.pid && activeTasks.has(task.id)) {
+    try {
+      process.kill(task.pid, 'SIGTERM');
+    } catch (error) {
+      logQueueError(`Failed to kill process ${task.pid} for task: ${task.id}`, error as Error);
+    }
+  }
+
+  logQueueMessage(`Cancelling task: ${task.id}`);
+  await markPackagingFailed(task);
+  publishTaskEvent('cancelled', task);
+  await markFollowingTasksUnreachable(task);
+  return task;
+}
+
+/**
+ * Re-queues a failed task, along with the tasks of the file that became `unreachable` behind it.
+ * Returns `undefined` if the task had not failed.
+ */
+export async function retryTask(taskId: Task['id']) {
+  const task = await requeueFailedTask(taskId);
+  if (!task) return undefined;
+
+  const revivedTasks = await reviveUnreachableTasks(task.file_id, task.id);
+  logQueueMessage(`Retrying task: ${task.id} (revived ${revivedTasks.length} unreachable tasks)`);
+
+  for (const requeuedTask of [task, ...revivedTasks]) {
+    await markPackagingQueued(requeuedTask);
+    publishTaskEvent('queued', requeuedTask);
+  }
+
+  return { task, revivedTasks };
+}
+
+async function markPackagingQueued(task: Task) {
+  if (task.operation !== 'dash' && task.operation !== 'hls') return;
+  await tryCatch(updateFilePackaging(task.file_id, task.operation, 'queued'));
+}
+
+/**
+ * Streaming packages that will never be built (or failed before reaching ffmpeg)
+ * must not be left as `queued` or `processing` on the file.
+ */
+async function markPackagingFailed(task: Task) {
+  if (task.operation !== 'dash' && task.operation !== 'hls') return;
+  await tryCatch(updateFilePackaging(task.file_id, task.operation, 'failed'));
+}
+
 async function runOperation(task: Task) {
   const { args: jsonArgs } = task;
 
@@ -122,6 +274,27 @@ async function runOperation(task: Task) {
       await resizeVideo(args, task);
     } break;
 
+    case 'change-speed': {
+      const parsed = ChangeSpeedSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid change-speed args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await changeSpeed(args, task);
+    } break;
+
+    case 'crop': {
+      const parsed = CropSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid crop args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await cropVideo(args, task);
+    } break;
+
+    case 'rotate': {
+      const parsed = RotateSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid rotate args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await rotateVideo(args, task);
+    } break;
+
     case 'trim': {
       const parsed = TrimSchema.safeParse(JSON.parse(jsonArgs));
       if (!parsed.success) throw new Error(`Invalid trim args: ${JSON.stringify(parsed.error.issues)}`);
@@ -143,6 +316,27 @@ async function runOperation(task: Task) {
       await extractAudio(args, task);
     } break;
 
+    case 'normalize-audio': {
+      const parsed = NormalizeAudioSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid normalize-audio args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await normalizeAudio(args, task);
+    } break;
+
+    case 'detect-silence': {
+      const parsed = DetectSilenceSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid detect-silence args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await detectSilence(args, task);
+    } break;
+
+    case 'remove-silence': {
+      const parsed = RemoveSilenceSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid remove-silence args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await removeSilence(args, task);
+    } break;
+
     case 'remove-audio': {
       const parsed = RemoveAudioSchema.safeParse(JSON.parse(jsonArgs));
       if (!parsed.success) throw new Error(`Invalid remove-audio args: ${JSON.stringify(parsed.error.issues)}`);
@@ -164,6 +358,62 @@ async function runOperation(task: Task) {
       await extractThumbnail(args, task);
     } break;
 
+    case 'make-animation': {
+      const parsed = MakeAnimationSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid make-animation args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await makeAnimation(args, task);
+    } break;
+
+    case 'detect-scenes': {
+      const parsed = DetectScenesSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid detect-scenes args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await detectScenes(args, task);
+    } break;
+
+    case 'sprite-sheet': {
+      const parsed = SpriteSheetSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid sprite-sheet args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await generateSpriteSheet(args, task);
+    } break;
+
+    case 'waveform': {
+      const parsed = WaveformSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid waveform args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await generateWaveform(args, task);
+    } break;
+
+    case 'add-subtitles': {
+      const parsed = AddSubtitlesSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid add-subtitles args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await addSubtitles(args, task);
+    } break;
+
+    case 'burn-subtitles': {
+      const parsed = BurnSubtitlesSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid burn-subtitles args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await burnSubtitles(args, task);
+    } break;
+
+    case 'overlay': {
+      const parsed = OverlaySchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid overlay args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await overlayImage(args, task);
+    } break;
+
+    case 'extract-subtitles': {
+      const parsed = ExtractSubtitlesSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid extract-subtitles args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await extractSubtitles(args, task);
+    } break;
+
     case 'merge-media': {
       const parsed = MergeMediaSchema.safeParse(JSON.parse(jsonArgs));
       if (!parsed.success) throw new Error(`Invalid merge-media args: ${JSON.stringify(parsed.error.issues)}`);
@@ -173,11 +423,25 @@ async function runOperation(task: Task) {
 
     case 'dash': {
       const parsed = DashSchema.safeParse(JSON.parse(jsonArgs));
-      if (!parsed.success) throw new Error(`Invalid merge-media args: ${JSON.stringify(parsed.error.issues)}`);
+      if (!parsed.success) throw new Error(`Invalid dash args: ${JSON.stringify(parsed.error.issues)}`);
       const args = parsed.data;
       await generateDashFiles(args, task);
     } break;
 
+    case 'hls': {
+      const parsed = HlsSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid hls args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await generateHlsFiles(args, task);
+    } break;
+
+    case 'import': {
+      const parsed = ImportSchema.safeParse(JSON.parse(jsonArgs));
+      if (!parsed.success) throw new Error(`Invalid import args: ${JSON.stringify(parsed.error.issues)}`);
+      const args = parsed.data;
+      await importFromUrl(args, task);
+    } break;
+
     default:
       throw new Error(`Unhandled operation: ${task.operation}`);
   }
@@ -1,7 +1,7 @@
 import { S3Client } from 'bun';
 import path from 'path';
-import { mkdir } from 'node:fs/promises';
-import { logTask, type Task } from './tasks.ts';
+import { mkdir, rm } from 'node:fs/promises';
+import { isTaskCancelled, logTask, type Task, updateTask } from './tasks.ts';
 import { createFile, getFile, updateFile, type UserFile } from './files.ts';
 import { TEMP_DIR } from './dirs.ts';
 import { tryCatch } from './promises.ts';
@@ -56,6 +56,9 @@ export async function handleS3DownAndUpSwap(params: Params) {
   await updateFile(task.file_id, {
     file_name: newFileName ?? outputFile,
     file_path: s3UploadPath ?? outputFile,
+    // the analyses were run on the previous content
+    scenes: null,
+    silences: null,
     ...(data ? {
       mime_type: data.mimeType,
       metadata: JSON.stringify(data.meta),
@@ -65,11 +68,10 @@ export async function handleS3DownAndUpSwap(params: Params) {
     } : {})
   });
 
-  for (const s3Path of s3Paths) {
-    const s3File = spaces.file(s3Path);
-    await s3File.delete();
-  }
+  // only the replaced file goes away, the rest of the inputs (e.g. subtitle or audio tracks) keep their files
+  await spaces.file(s3Paths[0]!).delete();
 
+  await updateTask(task.id, { output_file_id: task.file_id });
   await cleanupFiles([...inputPaths, outputPath]);
 }
 
@@ -91,6 +93,7 @@ export async function handleS3DownAndUpAppend(params: Params) {
     file_name: newFileName ?? outputFile,
     file_path: s3UploadPath ?? outputFile,
     mime_type: newFile.type,
+    owner: task.owner,
     ...(parentFile ? { parent: parentFile } : {})
   });
 
@@ -99,9 +102,96 @@ export async function handleS3DownAndUpAppend(params: Params) {
     await updateFile(newFileId, { metadata: JSON.stringify(metadata.meta) });
   }
 
+  await updateTask(task.id, { output_file_id: newFileId });
   await cleanupFiles([...inputPaths, outputPath]);
 }
 
+/**
+ * This function handles downloading the source file from the S3 client, plus cleanup of the local copy.
+ * This version is for operations that only analyse the file, nothing is uploaded back.
+ */
+export async function handleS3Download<T>(params: { task: Task; fileId: string; operation: (params: { inputPath: string }) => Promise<T> }) {
+  const { task, fileId, operation } = params;
+  const { data: file, error } = await tryCatch(getFile(fileId));
+  if (error || !file) throw new Error(`Could not find file ${fileId}`);
+
+  const inputPath = path.join(TEMP_DIR, `${task.code}_${file.file_path}`);
+  try {
+    await downloadFromS3ToDisk(file.file_path, inputPath);
+    return await operation({ inputPath });
+  } finally {
+    await cleanupFile(inputPath);
+  }
+}
+
+interface MultipleOutputsParams {
+  task: Task;
+  fileId: string;
+  operation: (params: { inputPath: string; outputDir: string }) => Promise<{ path: string; name: string }[]>;
+}
+
+/**
+ * This function handles downloading the source file from the S3 client
+ * and the subsequent upload of every output, plus cleanup of local files.
+ * This version is for operations producing several files (e.g. sprite sheets), which are always appended
+ * as children of the source file. The operation returns the outputs with the main one first, the name of
+ * each local file (without extension) is used as its file id.
+ */
+export async function handleS3DownAndUpMultiple(params: MultipleOutputsParams) {
+  const { task, fileId, operation } = params;
+  const { data: file, error } = await tryCatch(getFile(fileId));
+  if (error || !file) throw new Error(`Could not find file ${fileId}`);
+
+  const inputPath = path.join(TEMP_DIR, `${task.code}_${file.file_path}`);
+  const outputDir = path.join(TEMP_DIR, task.code);
+  const uploadedPaths: string[] = [];
+
+  try {
+    await downloadFromS3ToDisk(file.file_path, inputPath);
+    await mkdir(outputDir, { recursive: true });
+
+    const outputs = await operation({ inputPath, outputDir });
+    if (outputs.length === 0) throw new Error('The operation produced no files');
+
+    for (const output of outputs) {
+      if (await isTaskCancelled(task.id)) break;
+      const s3Path = path.basename(output.path);
+      await uploadToS3FromDisk(output.path, s3Path);
+      uploadedPaths.push(s3Path);
+    }
+
+    // the task might have been cancelled during the upload, in which case the outputs are discarded
+    if (await isTaskCancelled(task.id)) {
+      logTask(task.id, 'Task cancelled, discarding uploaded outputs');
+      for (const s3Path of uploadedPaths) await tryCatch(spaces.file(s3Path).delete());
+      throw new Error(`Task ${task.id} was cancelled`);
+    }
+
+    const cleanName = extractFileName(file.file_name);
+    for (const output of outputs) {
+      const newFileId = extractFileName(output.path);
+      const { data: metadata } = await tryCatch(getLocalFileMetadata(output.path));
+
+      await createFile({
+        id: newFileId,
+        file_name: `${cleanName}_${output.name}`,
+        file_path: path.basename(output.path),
+        mime_type: metadata?.mimeType ?? Bun.file(output.path).type,
+        owner: task.owner,
+        parent: fileId,
+      });
+      if (metadata) {
+        await updateFile(newFileId, { metadata: JSON.stringify(metadata.meta) });
+      }
+    }
+
+    await updateTask(task.id, { output_file_id: extractFileName(outputs[0]!.path) });
+  } finally {
+    await cleanupFile(inputPath);
+    await rm(outputDir, { force: true, recursive: true });
+  }
+}
+
 /**
  * This is the function that actually handles downloading the source file from the S3 client
  * and the subsequent upload, leaving the cleanup to the caller.
@@ -141,6 +231,12 @@ async function __executeS3DownAndUp(params: Params) {
     throw operationError;
   }
 
+  if (await isTaskCancelled(task.id)) {
+    logTask(task.id, 'Task cancelled, skipping upload');
+    await cleanupFiles([...inputPaths, outputPath]);
+    throw new Error(`Task ${task.id} was cancelled`);
+  }
+
   const { error: uploadError } = await tryCatch(uploadToS3FromDisk(outputPath, s3UploadPath));
   if (uploadError) {
     logTask(task.id, 'Failed to upload from S3');
@@ -148,6 +244,14 @@ async function __executeS3DownAndUp(params: Params) {
     throw uploadError;
   }
 
+  // the task might have been cancelled during the upload, in which case the output is discarded
+  if (await isTaskCancelled(task.id)) {
+    logTask(task.id, 'Task cancelled, discarding uploaded output');
+    await tryCatch(spaces.file(s3UploadPath).delete());
+    await cleanupFiles([...inputPaths, outputPath]);
+    throw new Error(`Task ${task.id} was cancelled`);
+  }
+
   return { s3Paths, inputPaths, outputPath };
 }
 
@@ -181,8 +285,15 @@ export async function cleanupFile(path: string) {
   }
 }
 
-export async function deleteDashFiles(fileId: UserFile['id']) {
-  const prefix = `${fileId}/dash/`;
+export function deleteDashFiles(fileId: UserFile['id']) {
+  return deletePrefixedFiles(`${fileId}/dash/`);
+}
+
+export function deleteHlsFiles(fileId: UserFile['id']) {
+  return deletePrefixedFiles(`${fileId}/hls/`);
+}
+
+async function deletePrefixedFiles(prefix: string) {
   let continuationToken: string | undefined;
   let totalDeleted = 0;
 
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isPublicHttpUrl } from "./network.ts";
 
 export const videoFormat = z.enum([
   "mp4",
@@ -30,6 +31,67 @@ export const imageFormat = z.enum([
 ]);
 export type ImageFormat = z.infer<typeof imageFormat>;
 
+// image formats that can hold more than one frame
+export const animationFormat = z.enum([
+  "gif",
+  "webp",
+  "avif",
+]);
+export type AnimationFormat = z.infer<typeof animationFormat>;
+
+export const subtitleFormat = z.enum([
+  "srt",
+  "vtt",
+]);
+export type SubtitleFormat = z.infer<typeof subtitleFormat>;
+
+// containers that can hold soft subtitles (avi can't)
+export const subtitleContainerFormat = z.enum([
+  "mp4",
+  "mkv",
+  "webm",
+  "mov",
+]);
+export type SubtitleContainerFormat = z.infer<typeof subtitleContainerFormat>;
+
+export const loudnessPreset = z.enum([
+  "podcast",
+  "broadcast",
+]);
+export type LoudnessPreset = z.infer<typeof loudnessPreset>;
+
+export const audioTrackStrategy = z.enum([
+  "replace",
+  "mix",
+  "duck",
+]);
+export type AudioTrackStrategy = z.infer<typeof audioTrackStrategy>;
+
+export const cropGravity = z.enum([
+  "center",
+  "top",
+  "bottom",
+  "left",
+  "right",
+]);
+export type CropGravity = z.infer<typeof cropGravity>;
+
+export const flipDirection = z.enum([
+  "horizontal",
+  "vertical",
+  "both",
+]);
+export type FlipDirection = z.infer<typeof flipDirection>;
+
+export const overlayPosition = z.enum([
+  "top-left",
+  "top-right",
+  "bottom-left",
+  "bottom-right",
+  "center",
+]);
+export type OverlayPosition = z.infer<typeof overlayPosition>;
+
 export const videoCodec = z.enum([
   "h264",
   "hevc",
@@ -50,6 +112,22 @@ export type AudioCodec = z.infer<typeof audioCodec>;
 const fileId = z.string().min(1, "fileId is required");
 const parentId = z.string().min(1, "parentId is required").optional();
 const mode = z.enum(['append', 'replace']).default('replace');
+const callbackUrl = z
+  .string()
+  .url('callback_url must be a valid URL')
+  .refine(isPublicHttpUrl, 'callback_url must be a public http or https URL')
+  .optional();
+const maxAttempts = z.number().int().min(1).max(10).optional(); // overrides the default retry policy of the operation
+const priority = z.number().int().min(-100).max(100).optional(); // higher runs first, defaults to 0
+const runAt = z.string().datetime({ offset: true, message: 'run_at must be an ISO 8601 date' }).optional();
+
+// accepted by every operation, they configure the task instead of the FFmpeg command
+const taskOptions = z.object({
+  callback_url: callbackUrl,
+  max_attempts: maxAttempts,
+  priority,
+  run_at: runAt,
+});
 
 const TranscodeParams = z.object({
   format: videoFormat,
@@ -60,7 +138,7 @@ const TranscodeParams = z.object({
   audio_bitrate: z.string().optional(), // Audio bitrate (e.g., "128k")
   parent: parentId,
   mode,
-});
+}).merge(taskOptions);
 export const TranscodeSchema = TranscodeParams.extend({ file_id: fileId });
 export type TranscodeType = z.infer<typeof TranscodeSchema>;
 
@@ -70,10 +148,69 @@ const ResizeVideoParams = z.object({
   output_format: videoFormat,
   parent: parentId,
   mode,
-});
+}).merge(taskOptions);
 export const ResizeVideoSchema = ResizeVideoParams.extend({ file_id: fileId });
 export type ResizeVideoType = z.infer<typeof ResizeVideoSchema>;
 
+const ChangeSpeedParams = z.object({
+  factor: z.number().min(0.25, 'Factor must be at least 0.25').max(100, 'Factor must be at most 100'), // > 1 speeds up, < 1 slows down
+  preserve_pitch: z.boolean().default(true), // otherwise the pitch shifts along with the speed
+  drop_audio: z.boolean().default(false), // e.g. for time-lapses, where sped up audio is just noise
+  output_format: videoFormat,
+  parent: parentId,
+  mode,
+}).merge(taskOptions);
+export const ChangeSpeedSchema = ChangeSpeedParams.extend({ file_id: fileId });
+export type ChangeSpeedType = z.infer<typeof ChangeSpeedSchema>;
+
+const CropParams = z.object({
+  // explicit rectangle, it's centered when x and y are missing
+  width: z.number().int().min(2).optional(),
+  height: z.number().int().min(2).optional(),
+  x: z.number().int().min(0).optional(),
+  y: z.number().int().min(0).optional(),
+  auto: z.boolean().default(false), // removes the black bars found by `cropdetect`
+  aspect_ratio: z.string().regex(/^\d+:\d+$/, 'aspect_ratio must look like "9:16"').optional(),
+  gravity: cropGravity.default('center'), // the part of the video kept by `aspect_ratio` crops
+  output_format: videoFormat,
+  parent: parentId,
+  mode,
+}).merge(taskOptions);
+
+function refineCrop(args: z.infer<typeof CropParams>, ctx: z.RefinementCtx) {
+  const hasRect = args.width !== undefined || args.height !== undefined;
+  const modes = [hasRect, args.auto, args.aspect_ratio !== undefined].filter(Boolean).length;
+  if (modes !== 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Exactly one of width/height, auto or aspect_ratio is required' });
+  }
+  if (hasRect && (args.width === undefined || args.height === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'width and height must be set together', path: ['width'] });
+  }
+  if ((args.x === undefined) !== (args.y === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'x and y must be set together', path: ['x'] });
+  }
+  if (args.x !== undefined && !hasRect) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'x and y are only allowed along with width and height', path: ['x'] });
+  }
+  if (args.aspect_ratio?.split(':').some((value) => Number(value) === 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'aspect_ratio values must be positive', path: ['aspect_ratio'] });
+  }
+}
+
+export const CropSchema = CropParams.extend({ file_id: fileId }).superRefine(refineCrop);
+export type CropType = z.infer<typeof CropSchema>;
+
+const RotateParams = z.object({
+  angle: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).default(0), // clockwise
+  flip: flipDirection.optional(), // applied after the rotation
+  output_format: videoFormat,
+  parent: parentId,
+  mode,
+}).merge(taskOptions);
+
+export const RotateSchema = RotateParams.extend({ file_id: fileId });
+export type RotateType = z.infer<typeof RotateSchema>;
+
 const TrimParams = z.object({
   start: z.number({ required_error: "Start time is required" }),
   duration: z.number({ required_error: "Duration is required" }),
@@ -81,7 +218,7 @@ const TrimParams = z.object({
   exact: z.boolean().default(false),
   parent: parentId,
   mode,
-});
+}).merge(taskOptions);
 export const TrimSchema = TrimParams.extend({ file_id: fileId });
 export type TrimType = z.infer<typeof TrimSchema>;
 
@@ -90,7 +227,7 @@ const CutEndParams = z.object({
   output_format: videoFormat,
   parent: parentId,
   mode,
-});
+}).merge(taskOptions);
 export const CutEndSchema = CutEndParams.extend({ file_id: fileId });
 export type CutEndType = z.infer<typeof CutEndSchema>;
 
@@ -99,15 +236,48 @@ const ExtractAudioParams = z.object({
   audio_codec: audioCodec.optional(),
   parent: parentId,
   mode,
-});
+}).merge(taskOptions);
 export const ExtractAudioSchema = ExtractAudioParams.extend({ file_id: fileId });
 export type ExtractAudioType = z.infer<typeof ExtractAudioSchema>;
 
+const NormalizeAudioParams = z.object({
+  preset: loudnessPreset.default('podcast'),
+  integrated_loudness: z.number().min(-70).max(-5).optional(), // target in LUFS, overrides the preset
+  true_peak: z.number().min(-9).max(0).optional(), // maximum in dBTP, overrides the preset
+  loudness_range: z.number().min(1).max(50).optional(), // target in LU, overrides the preset
+  output_format: z.union([videoFormat, audioFormat]).optional(), // defaults to the format of the input
+  parent: parentId,
+  mode,
+}).merge(taskOptions);
+export const NormalizeAudioSchema = NormalizeAudioParams.extend({ file_id: fileId });
+export type NormalizeAudioType = z.infer<typeof NormalizeAudioSchema>;
+
+const noiseFloor = z.number().min(-90).max(0).default(-30); // dB, quieter audio counts as silence
+const minSilenceDuration = z.number().min(0.1).max(60).default(0.5); // seconds
+
+const DetectSilenceParams = z.object({
+  noise_floor: noiseFloor,
+  min_duration: minSilenceDuration,
+}).merge(taskOptions);
+export const DetectSilenceSchema = DetectSilenceParams.extend({ file_id: fileId });
+export type DetectSilenceType = z.infer<typeof DetectSilenceSchema>;
+
+const RemoveSilenceParams = z.object({
+  noise_floor: noiseFloor,
+  min_duration: minSilenceDuration,
+  padding: z.number().min(0).max(1).default(0.1), // seconds of silence kept around every cut
+  output_format: z.union([videoFormat, audioFormat]).optional(), // defaults to the format of the input
+  parent: parentId,
+  mode,
+}).merge(taskOptions);
+export const RemoveSilenceSchema = RemoveSilenceParams.extend({ file_id: fileId });
+export type RemoveSilenceType = z.infer<typeof RemoveSilenceSchema>;
+
 const RemoveAudioParams = z.object({
   output_format: videoFormat,
   parent: parentId,
   mode,
-})
+}).merge(taskOptions)
 export const RemoveAudioSchema = RemoveAudioParams.extend({ file_id: fileId });
 export type RemoveAudioType = z.infer<typeof RemoveAudioSchema>;
 
@@ -117,38 +287,191 @@ export const AddAudioTrackSchema = z.object({
   output_format: videoFormat,
   video_codec: videoCodec.optional(),
   audio_codec: audioCodec.optional(),
+  strategy: audioTrackStrategy.default('replace'), // what happens to the original audio of the video
+  audio_volume: z.number().min(0).max(4).default(1), // of the added track
+  original_volume: z.number().min(0).max(4).default(1), // of the original audio, for `mix` and `duck`
+  offset: z.number().min(0).default(0), // seconds into the video where the added track starts
+  fade_in: z.number().min(0).max(60).default(0), // seconds
+  fade_out: z.number().min(0).max(60).default(0), // seconds
+  loop: z.boolean().default(false), // repeat the added track until the video ends (e.g. a short music bed)
   mode: mode.default('append'),
   parent: parentId,
-});
+}).merge(taskOptions);
 export type AddAudioTrackType = z.infer<typeof AddAudioTrackSchema>;
 
+const subtitleTrack = z.object({
+  file_id: fileId,
+  language: z.string().regex(/^[a-z]{3}$/, 'language must be an ISO 639-2 code (e.g. "eng")').optional(),
+  title: z.string().optional(),
+  default: z.boolean().default(false), // players pick the default track automatically
+});
+
+export const AddSubtitlesSchema = z.object({
+  file_id: fileId,
+  subtitles: z.array(subtitleTrack).min(1, 'At least one subtitle track is required').max(16),
+  output_format: subtitleContainerFormat,
+  parent: parentId,
+  mode,
+}).merge(taskOptions);
+export type AddSubtitlesType = z.infer<typeof AddSubtitlesSchema>;
+
+export const BurnSubtitlesSchema = z.object({
+  file_id: fileId,
+  subtitle_file_id: fileId.optional(), // burns a subtitle track of the video itself when missing
+  stream_index: z.number().int().min(0).default(0), // index among the subtitle tracks of the video
+  font_size: z.number().int().min(8).max(96).optional(),
+  output_format: videoFormat,
+  parent: parentId,
+  mode,
+}).merge(taskOptions);
+export type BurnSubtitlesType = z.infer<typeof BurnSubtitlesSchema>;
+
+export const OverlaySchema = z.object({
+  video_file_id: fileId,
+  image_file_id: fileId,
+  position: overlayPosition.default('bottom-right'),
+  x: z.number().int().min(0).optional(), // x and y (in pixels) take precedence over the position preset
+  y: z.number().int().min(0).optional(),
+  margin: z.number().int().min(0).default(10), // distance to the edges for the position presets
+  scale: z.number().gt(0).max(1).optional(), // width of the image relative to the video width
+  opacity: z.number().min(0).max(1).default(1),
+  start: z.number().min(0).optional(), // seconds, the image is shown for the whole video when missing
+  end: z.number().positive().optional(),
+  output_format: videoFormat,
+  mode: mode.default('append'),
+  parent: parentId,
+}).merge(taskOptions)
+  .refine((args) => (args.x === undefined) === (args.y === undefined), 'x and y must be set together')
+  .refine((args) => args.start === undefined || args.end === undefined || args.end > args.start, 'end must be after start');
+export type OverlayType = z.infer<typeof OverlaySchema>;
+
 export const MergeMediaSchema = z.object({
   file_ids: z.array(fileId).min(2, 'At least two files required'),
   // TODO: check if the operation can take video or audio as output, or just video
   output_format: z.string().min(1, 'Output format is required'),
   mode: mode.default('append'),
   parent: parentId,
-});
+}).merge(taskOptions);
 export type MergeMediaType = z.infer<typeof MergeMediaSchema>;
 
 export const ExtractThumbnailParams = z.object({
-  timestamp: z.string().min(1, 'Timestamp required'),
+  timestamp: z.string().min(1, 'Timestamp required'), // e.g. "00:00:05", or "auto" for a representative non-black frame
   image_format: imageFormat,
   mode,
   parent: parentId,
-})
+}).merge(taskOptions)
 export const ExtractThumbnailSchema = ExtractThumbnailParams.extend({ file_id: fileId });
 export type ExtractThumbnailType = z.infer<typeof ExtractThumbnailSchema>;
 
+const DetectScenesParams = z.object({
+  threshold: z.number().gt(0).lt(1).default(0.4), // minimum scene change score (0-1), lower finds more cuts
+}).merge(taskOptions);
+export const DetectScenesSchema = DetectScenesParams.extend({ file_id: fileId });
+export type DetectScenesType = z.infer<typeof DetectScenesSchema>;
+
+const MakeAnimationParams = z.object({
+  start: z.number().min(0).default(0),
+  duration: z.number().positive().max(60, 'Duration must be at most 60 seconds'),
+  fps: z.number().int().min(1).max(50).default(15),
+  width: z.number().int().min(16).max(1920).default(480), // the height keeps the aspect ratio
+  loop: z.number().int().min(0).max(65535).default(0), // times the animation repeats, 0 loops forever
+  image_format: animationFormat.default('gif'),
+  parent: parentId,
+  mode: mode.default('append'),
+}).merge(taskOptions);
+export const MakeAnimationSchema = MakeAnimationParams.extend({ file_id: fileId });
+export type MakeAnimationType = z.infer<typeof MakeAnimationSchema>;
+
+const SpriteSheetParams = z.object({
+  interval: z.number().min(0.5).max(600).default(10), // seconds between sampled frames
+  width: z.number().int().min(16).max(640).default(160), // of every thumbnail, the height keeps the aspect ratio
+  columns: z.number().int().min(1).max(20).default(5),
+  rows: z.number().int().min(1).max(20).default(5),
+  image_format: imageFormat.extract(['jpg', 'webp']).default('jpg'),
+}).merge(taskOptions);
+export const SpriteSheetSchema = SpriteSheetParams.extend({ file_id: fileId });
+export type SpriteSheetType = z.infer<typeof SpriteSheetSchema>;
+
+const WaveformParams = z.object({
+  samples_per_pixel: z.number().int().min(32).max(65536).default(256), // audio samples summarized by every min/max pair
+  bits: z.union([z.literal(8), z.literal(16)]).default(8), // resolution of the peaks
+  image: z.boolean().default(false), // also render the waveform as a PNG
+  image_width: z.number().int().min(100).max(8000).default(1800),
+  image_height: z.number().int().min(50).max(2000).default(280),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'color must be a hex color (e.g. "#3b82f6")').default('#3b82f6'),
+}).merge(taskOptions);
+export const WaveformSchema = WaveformParams.extend({ file_id: fileId });
+export type WaveformType = z.infer<typeof WaveformSchema>;
+
+const ExtractSubtitlesParams = z.object({
+  subtitle_format: subtitleFormat,
+  stream_index: z.number().int().min(0).default(0), // index among the subtitle tracks of the video
+  parent: parentId,
+  mode,
+}).merge(taskOptions);
+export const ExtractSubtitlesSchema = ExtractSubtitlesParams.extend({ file_id: fileId });
+export type ExtractSubtitlesType = z.infer<typeof ExtractSubtitlesSchema>;
+
+export const rendition = z.object({
+  height: z.number().int().min(144, 'Height must be at least 144').max(4320, 'Height must be at most 4320'),
+  video_bitrate: z.string().regex(/^\d+k$/, 'Video bitrate must be in kbps (e.g. "2800k")'),
+});
+export type Rendition = z.infer<typeof rendition>;
+// Bitrate ladder for adaptive streaming, rungs above the source resolution are skipped
+const renditions = z.array(rendition).min(1).max(8).optional();
+
+const DashParams = z.object({
+  renditions,
+}).merge(taskOptions);
+export const DashSchema = DashParams.extend({ file_id: fileId });
+export type DashType = z.infer<typeof DashSchema>;
+
+const HlsParams = z.object({
+  renditions,
+  segment_type: z.enum(['fmp4', 'mpegts']).default('fmp4'),
+  segment_duration: z.number().int().min(1).max(30).default(6), // seconds
+}).merge(taskOptions);
+export const HlsSchema = HlsParams.extend({ file_id: fileId });
+export type HlsType = z.infer<typeof HlsSchema>;
+
+export const UploadUrlSchema = z.object({
+  file_name: z.string().min(1, 'file_name is required'),
+  mime_type: z.string().min(1, 'mime_type is required'),
+  size: z.number().int().positive(), // bytes, checked against the upload limit before and after the upload
+});
+
+export const ImportParams = z.object({
+  url: z
+    .string()
+    .url('url must be a valid URL')
+    .refine((url) => ['http:', 'https:'].includes(new URL(url).protocol), 'url must use http or https')
+    .refine(isPublicHttpUrl, 'url must point to a public host'),
+  file_name: z.string().min(1).optional(), // defaults to the last segment of the url path
+}).merge(taskOptions);
+
+export const ImportSchema = ImportParams.extend({ file_id: fileId });
+export type ImportType = z.infer<typeof ImportSchema>;
+
 // Union for chained operation
 export const ChainOperationSchema = z.union([
   TrimParams.extend({ type: z.literal("trim") }),
   CutEndParams.extend({ type: z.literal("trim-end") }),
   ExtractAudioParams.extend({ type: z.literal("extract-audio") }),
+  NormalizeAudioParams.extend({ type: z.literal("normalize-audio") }),
+  RemoveSilenceParams.extend({ type: z.literal("remove-silence") }),
   TranscodeParams.extend({ type: z.literal("transcode") }),
   RemoveAudioParams.extend({ type: z.literal('remove-audio') }),
   ResizeVideoParams.extend({ type: z.literal('resize-video') }),
+  ChangeSpeedParams.extend({ type: z.literal('change-speed') }),
+  CropParams.extend({ type: z.literal('crop') }).superRefine(refineCrop),
+  RotateParams.extend({ type: z.literal('rotate') }),
   ExtractThumbnailParams.extend({ type: z.literal('extract-thumbnail') }),
+  MakeAnimationParams.extend({ type: z.literal('make-animation') }),
+  SpriteSheetParams.extend({ type: z.literal('sprite-sheet') }),
+  WaveformParams.extend({ type: z.literal('waveform') }),
+  ExtractSubtitlesParams.extend({ type: z.literal('extract-subtitles') }),
+  DashParams.extend({ type: z.literal('dash') }),
+  HlsParams.extend({ type: z.literal('hls') }),
 ]);
 
 export const ChainSchema = z.object({
@@ -162,19 +485,33 @@ export const BulkSchema = z.object({
   operation: ChainOperationSchema,
 })
 
-export const DashSchema = z.object({ file_id: fileId });
-export type DashType = z.infer<typeof DashSchema>;
 
 export type Operations =
   | TranscodeType
   | ResizeVideoType
+  | ChangeSpeedType
+  | CropType
+  | RotateType
   | TrimType
   | CutEndType
   | ExtractAudioType
+  | NormalizeAudioType
+  | DetectSilenceType
+  | RemoveSilenceType
   | AddAudioTrackType
   | RemoveAudioType
   | MergeMediaType
   | ExtractThumbnailType
-  | DashType;
+  | DetectScenesType
+  | MakeAnimationType
+  | SpriteSheetType
+  | WaveformType
+  | AddSubtitlesType
+  | BurnSubtitlesType
+  | OverlayType
+  | ExtractSubtitlesType
+  | DashType
+  | HlsType
+  | ImportType;
 
-export type OperationName = ChainType['operations'][number]['type'] | 'add-audio' | 'merge-media' | 'dash';
+export type OperationName = ChainType['operations'][number]['type'] | 'add-audio' | 'merge-media' | 'import' | 'add-subtitles' | 'burn-subtitles' | 'overlay' | 'detect-scenes' | 'detect-silence';
@@ -2,6 +2,7 @@ import type { OperationName, Operations } from './schemas.ts';
 import { nanoid } from 'nanoid';
 import { sql } from 'bun';
 import type { UserFile } from './files.ts';
+import { publishTaskEvent } from './events.ts';
 
 export interface Task {
   id: number;
@@ -9,71 +10,270 @@ export interface Task {
   file_id: string;
   operation: OperationName;
   args: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed' | 'unreachable';
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'unreachable' | 'cancelled';
   pid?: number;
   error?: string;
+  progress?: number | null;
+  out_time?: number | null;
+  speed?: number | null;
+  eta?: number | null;
+  output_file_id?: string | null;
+  result?: string | null;
+  attempts: number;
+  max_attempts: number;
+  next_run_at?: Date | null;
+  priority: number;
+  run_at?: Date | null;
+  owner: string | null;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3; // same as the default of `tasks.max_attempts` in the prisma schema
+const RETRY_BASE_DELAY = 10_000; // doubles on every attempt: 10s, 20s, 40s...
+const RETRY_MAX_DELAY = 10 * 60_000;
+
+/**
+ * Retry policy per operation, the packaging ones re-encode the whole video
+ * on every attempt, so they only get a second chance.
+ * Requests can override it with `max_attempts`.
+ */
+const OPERATION_MAX_ATTEMPTS: Partial<Record<OperationName, number>> = {
+  dash: 2,
+  hls: 2,
+};
+
+function resolveMaxAttempts(operation: OperationName, args: Operations) {
+  return args.max_attempts ?? OPERATION_MAX_ATTEMPTS[operation] ?? DEFAULT_MAX_ATTEMPTS;
+}
+
+export function getRetryDelay(attempts: Task['attempts']) {
+  return Math.min(RETRY_BASE_DELAY * 2 ** (attempts - 1), RETRY_MAX_DELAY);
+}
+
+export async function getTask(taskId: Task['id']) {
+  const [task] = await sql`SELECT * FROM tasks WHERE id = ${taskId}`;
+  return task as Task | undefined;
+}
+
+/**
+ * The completed task of the given operation that produced the file, used to tell its outputs apart from any other file.
+ */
+export async function getProducingTask(outputFileId: UserFile['id'], operation: OperationName) {
+  const [task] = await sql`
+    SELECT *
+    FROM tasks
+    WHERE output_file_id = ${outputFileId} AND operation = ${operation} AND status = 'completed'
+    LIMIT 1`;
+  return task as Task | undefined;
 }
 
 export async function getTasksForFile(fileId: UserFile['id']) {
   return (await sql`SELECT * FROM tasks WHERE file_id = ${fileId} ORDER BY id`) as Task[];
 }
 
+/**
+ * The tasks of the file are matched by `file_id` so they are returned
+ * even before the `files` row exists (e.g. while importing it).
+ */
 export async function getTasksForFileAndDecendants(fileId: UserFile['id']) {
-  const files = await sql`SELECT id FROM files WHERE id = ${fileId} OR parent = ${fileId}`;
   return (
-    await sql`SELECT * FROM tasks WHERE file_id IN ${sql((files as UserFile[]).map((f) => ({ id: f.id })), 'id')} ORDER BY id`
+    await sql`
+      SELECT *
+      FROM tasks
+      WHERE file_id = ${fileId} OR file_id IN (SELECT id FROM files WHERE parent = ${fileId})
+      ORDER BY id`
   ) as Task[];
 }
 
 
+/**
+ * Returns the queued tasks that are ready to run, the highest priorities first and then the oldest ones.
+ * Only the first queued task of every file is considered, so the operations of a file keep running in order
+ * and a task waiting for its `run_at` or its retry backoff holds back the rest of the tasks of the file.
+ */
 export async function getNextPendingTasks(params: { excludeFileIds: string[], limit: number }) {
-  if (params.excludeFileIds.length === 0) {
-    const query = await sql`
-      SELECT *
-      FROM tasks
-      WHERE status = 'queued'
-      ORDER BY id
-      LIMIT ${params.limit}`;
-    return query as Task[];
-  }
+  const excludeFilter = params.excludeFileIds.length > 0
+    ? sql`AND file_id NOT IN ${sql(params.excludeFileIds.map((id) => ({ id })), 'id')}`
+    : sql``;
 
   const query = await sql`
     SELECT *
-    FROM tasks
-    WHERE status = 'queued' AND file_id NOT IN ${sql(params.excludeFileIds.map((id) => ({ id })), 'id')}
-    ORDER BY id
+    FROM (
+      SELECT DISTINCT ON (file_id) *
+      FROM tasks
+      WHERE status = 'queued' ${excludeFilter}
+      ORDER BY file_id, id
+    ) AS heads
+    WHERE (run_at IS NULL OR run_at <= NOW()) AND (next_run_at IS NULL OR next_run_at <= NOW())
+    ORDER BY priority DESC, id
     LIMIT ${params.limit}`;
   return query as Task[];
 }
 
-export async function createTask(fileId: UserFile['id'], operation: Task['operation'], args: Operations) {
-  await sql`INSERT INTO tasks ${sql({
+/**
+ * Lists the tasks of the owner with their 1-based `queue_position`, following the same rules as `getNextPendingTasks`:
+ * only the first queued task of every file whose `run_at` and retry backoff have passed is ranked,
+ * and not while another task of the file is processing. The rest get a `null` position.
+ * The position is relative to every eligible task, as the queue is shared by all the owners.
+ */
+export async function getTasksWithQueuePosition(owner: string) {
+  const tasks = await sql`
+    SELECT tasks.*, queue.queue_position
+    FROM tasks
+    LEFT JOIN (
+      SELECT id, (ROW_NUMBER() OVER (ORDER BY priority DESC, id))::int AS queue_position
+      FROM (
+        SELECT DISTINCT ON (file_id) *
+        FROM tasks
+        WHERE status = 'queued'
+          AND file_id NOT IN (SELECT file_id FROM tasks WHERE status = 'processing')
+        ORDER BY file_id, id
+      ) AS heads
+      WHERE (run_at IS NULL OR run_at <= NOW()) AND (next_run_at IS NULL OR next_run_at <= NOW())
+    ) AS queue ON queue.id = tasks.id
+    WHERE tasks.owner = ${owner}
+    ORDER BY tasks.id`;
+  return tasks as (Task & { queue_position: number | null })[];
+}
+
+export async function createTask(fileId: UserFile['id'], operation: Task['operation'], args: Operations, owner: string) {
+  const [task] = await sql`INSERT INTO tasks ${sql({
     code: nanoid(8),
     file_id: fileId,
     status: 'queued',
     operation,
     args: JSON.stringify(args),
-  })}`
+    max_attempts: resolveMaxAttempts(operation, args),
+    priority: args.priority ?? 0,
+    run_at: args.run_at ? new Date(args.run_at) : null,
+    owner,
+  })} RETURNING *`;
+  publishTaskEvent('queued', task as Task);
+  return task as Task;
 }
 
-export async function bulkCreateTasks(tasks: { file_id: UserFile['id'], operation: Task['operation'], args: Operations }[]) {
+export async function bulkCreateTasks(
+  tasks: { file_id: UserFile['id'], operation: Task['operation'], args: Operations }[],
+  owner: string,
+) {
   const dbInput = tasks.map((t) => ({
     code: nanoid(8),
     file_id: t.file_id,
     status: 'queued',
     operation: t.operation,
     args: JSON.stringify(t.args),
+    max_attempts: resolveMaxAttempts(t.operation, t.args),
+    priority: t.args.priority ?? 0,
+    run_at: t.args.run_at ? new Date(t.args.run_at) : null,
+    owner,
   }))
 
-  await sql`INSERT INTO tasks ${sql(dbInput)}`
+  const created = await sql`INSERT INTO tasks ${sql(dbInput)} RETURNING *`;
+  for (const task of created as Task[]) {
+    publishTaskEvent('queued', task);
+  }
 }
 
 export async function updateTask(taskId: Task['id'], task: Partial<Omit<Task, 'id'>>) {
   await sql`UPDATE tasks SET ${sql(task)} WHERE id = ${taskId}`;
 }
 
-export async function markPendingTasksForFileAsUnreachable(fileId: Task['file_id']) {
-  await sql`UPDATE tasks SET status = 'unreachable' WHERE file_id = ${fileId} and status = 'queued'`;
+/**
+ * Marks the queued tasks of the file as `unreachable`, they would otherwise run on an input that was never transformed.
+ * With `afterTaskId`, only the tasks queued behind that one are affected.
+ */
+export async function markPendingTasksForFileAsUnreachable(fileId: Task['file_id'], afterTaskId?: Task['id']) {
+  const afterFilter = afterTaskId !== undefined ? sql`AND id > ${afterTaskId}` : sql``;
+  const tasks = await sql`UPDATE tasks SET status = 'unreachable' WHERE file_id = ${fileId} and status = 'queued' ${afterFilter} RETURNING *`;
+  return tasks as Task[];
+}
+
+/**
+ * Moves a queued task to `processing`, only if it is still queued (it could have been cancelled since it was picked up).
+ * Returns `undefined` otherwise.
+ */
+export async function startQueuedTask(taskId: Task['id'], attempts: Task['attempts']) {
+  const [task] = await sql`
+    UPDATE tasks
+    SET status = 'processing', attempts = ${attempts}
+    WHERE id = ${taskId} AND status = 'queued'
+    RETURNING *`;
+  return task as Task | undefined;
+}
+
+/**
+ * Marks a processing task as `completed` or `failed`, only if it is still processing (a cancel must not be overwritten).
+ * Returns `undefined` otherwise.
+ */
+export async function finishProcessingTask(taskId: Task['id'], status: 'completed' | 'failed', error?: string) {
+  const [task] = await sql`
+    UPDATE tasks
+    SET status = ${status}, error = COALESCE(${error ?? null}, error)
+    WHERE id = ${taskId} AND status = 'processing'
+    RETURNING *`;
+  return task as Task | undefined;
+}
+
+/**
+ * Puts a failed task back in the queue, it won't be picked up again until `next_run_at`.
+ * Only applies if the task is still processing (it could have been cancelled meanwhile).
+ */
+export async function scheduleTaskRetry(taskId: Task['id'], error: string, nextRunAt: Date) {
+  const [task] = await sql`
+    UPDATE tasks
+    SET status = 'queued', error = ${error}, next_run_at = ${nextRunAt},
+        pid = NULL, progress = NULL, out_time = NULL, speed = NULL, eta = NULL
+    WHERE id = ${taskId} AND status = 'processing'
+    RETURNING *`;
+  return task as Task | undefined;
+}
+
+/**
+ * Re-queues a failed task with a fresh set of attempts.
+ * Returns `undefined` if the task had not failed.
+ */
+export async function requeueFailedTask(taskId: Task['id']) {
+  const [task] = await sql`
+    UPDATE tasks
+    SET status = 'queued', error = NULL, attempts = 0, next_run_at = NULL,
+        pid = NULL, progress = NULL, out_time = NULL, speed = NULL, eta = NULL
+    WHERE id = ${taskId} AND status = 'failed'
+    RETURNING *`;
+  return task as Task | undefined;
+}
+
+/**
+ * Re-queues the tasks of the file that became `unreachable` behind the given task.
+ */
+export async function reviveUnreachableTasks(fileId: Task['file_id'], afterTaskId: Task['id']) {
+  const tasks = await sql`
+    UPDATE tasks
+    SET status = 'queued'
+    WHERE file_id = ${fileId} AND status = 'unreachable' AND id > ${afterTaskId}
+    RETURNING *`;
+  return tasks as Task[];
+}
+
+export async function countPendingTasksForFile(fileId: Task['file_id']) {
+  const [{ count }] = await sql`SELECT COUNT(*) AS count FROM tasks WHERE file_id = ${fileId} AND status IN ('queued', 'processing')`;
+  return Number(count);
+}
+
+/**
+ * Marks the task as `cancelled` only if it is still queued or processing.
+ * Returns the updated task, or `undefined` if the task was no longer pending.
+ */
+export async function cancelPendingTask(taskId: Task['id']) {
+  const [task] = await sql`
+    UPDATE tasks
+    SET status = 'cancelled'
+    WHERE id = ${taskId} AND status IN ('queued', 'processing')
+    RETURNING *`;
+  return task as Task | undefined;
+}
+
+export async function isTaskCancelled(taskId: Task['id']) {
+  const [task] = await sql`SELECT status FROM tasks WHERE id = ${taskId}`;
+  return task?.status === 'cancelled';
 }
 
 export async function deleteAllTasksForFile(fileId: Task['file_id']) {
@@ -81,7 +281,23 @@ export async function deleteAllTasksForFile(fileId: Task['file_id']) {
 }
 
 export async function restoreAllProcessingTasksToQueued() {
-  await sql`UPDATE tasks SET status = 'queued' WHERE status = 'processing'`;
+  await sql`
+    UPDATE tasks
+    SET status = 'queued', pid = NULL, progress = NULL, out_time = NULL, speed = NULL, eta = NULL
+    WHERE status = 'processing'`;
+}
+
+/**
+ * Same as `assignOwnerToUnownedFiles`, the tasks take the owner of their file when it has one.
+ * Returns the number of tasks updated.
+ */
+export async function assignOwnerToUnownedTasks(owner: string) {
+  const tasks = await sql`
+    UPDATE tasks
+    SET owner = COALESCE((SELECT files.owner FROM files WHERE files.id = tasks.file_id), ${owner})
+    WHERE owner IS NULL
+    RETURNING id`;
+  return tasks.length;
 }
 
 export function logTask(taskId: Task['id'], message: string) {
@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'bun:test';
+import { parseUploadMetadata } from './uploads.ts';
+
+const encode = (value: string) => Buffer.from(value).toString('base64');
+
+describe('parseUploadMetadata', () => {
+  test('decodes the base64 values', () => {
+    const header = `filename ${encode('clip.mp4')},filetype ${encode('video/mp4')}`;
+    expect(parseUploadMetadata(header)).toEqual({ filename: 'clip.mp4', filetype: 'video/mp4' });
+  });
+
+  test('keeps utf-8 values', () => {
+    expect(parseUploadMetadata(`filename ${encode('vídeo ñ.mp4')}`)).toEqual({ filename: 'vídeo ñ.mp4' });
+  });
+
+  test('returns no metadata without the header', () => {
+    expect(parseUploadMetadata(null)).toEqual({});
+    expect(parseUploadMetadata('')).toEqual({});
+  });
+
+  test('keeps keys without a value as empty strings', () => {
+    expect(parseUploadMetadata(`is_confidential,filename ${encode('a.mp4')}`)).toEqual({ is_confidential: '', filename: 'a.mp4' });
+  });
+
+  test('skips empty pairs and surrounding spaces', () => {
+    expect(parseUploadMetadata(` , filename ${encode('a.mp4')} ,,`)).toEqual({ filename: 'a.mp4' });
+  });
+
+  test('does not throw on values that are not base64', () => {
+    expect(() => parseUploadMetadata('filename %%%,filetype ***')).not.toThrow();
+  });
+});
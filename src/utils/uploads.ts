@@ -0,0 +1,234 @@
+import { sql } from 'bun';
+import path from 'path';
+import { open, readdir } from 'node:fs/promises';
+import { nanoid } from 'nanoid';
+import { createFile } from './files.ts';
+import { cleanupFile, spaces, uploadToS3FromDisk } from './s3.ts';
+import { after } from './queue-bg.ts';
+import { updateFileMetadata } from './ffmpeg.ts';
+import { tryCatch } from './promises.ts';
+import { UPLOADS_DIR } from './dirs.ts';
+
+export interface Upload {
+  id: string; // the id of the file once the upload completes
+  method: 'tus' | 'presigned';
+  file_name: string;
+  mime_type: string;
+  upload_offset: number;
+  upload_length: number;
+  owner: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Uploads are resumed by id, a request appending to an upload holds it
+ * so concurrent requests can't interleave their chunks.
+ */
+const lockedUploads = new Set<Upload['id']>();
+
+const PRESIGNED_UPLOAD_EXPIRATION = 60 * 60;
+
+/**
+ * Uploads not completed within a day of their last request are discarded, along with what was received.
+ */
+const UPLOAD_EXPIRATION = 24 * 60 * 60 * 1000;
+const UPLOADS_CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+export async function getOwnedUpload(uploadId: Upload['id'], owner: string, method: Upload['method']) {
+  const [upload] = await sql`SELECT * FROM uploads WHERE id = ${uploadId} AND owner = ${owner} AND method = ${method}`;
+  return upload ? parseUpload(upload) : undefined;
+}
+
+export async function createUpload(newUpload: Pick<Upload, 'method' | 'file_name' | 'mime_type' | 'upload_length' | 'owner'>) {
+  const now = new Date().toISOString();
+  const [upload] = await sql`INSERT INTO uploads ${sql({
+    ...newUpload,
+    id: nanoid(8),
+    upload_offset: 0,
+    created_at: now,
+    updated_at: now,
+  })} RETURNING *`;
+
+  // the chunks are appended to the local file, so it has to exist before the first one arrives
+  if (newUpload.method === 'tus') {
+    await Bun.write(getUploadPath(upload.id), '');
+  }
+
+  return parseUpload(upload);
+}
+
+/**
+ * Presigned PUT url for the client to send the file straight to the bucket,
+ * the url is bound to the declared mime type.
+ */
+export function presignUpload(upload: Upload) {
+  const url = spaces.presign(getUploadKey(upload), {
+    method: 'PUT',
+    expiresIn: PRESIGNED_UPLOAD_EXPIRATION,
+    type: upload.mime_type,
+  });
+  const expiresAt = new Date(Date.now() + PRESIGNED_UPLOAD_EXPIRATION * 1000).toISOString();
+  return { url, expiresAt };
+}
+
+export function getUploadKey(upload: Upload) {
+  const ext = path.extname(upload.file_name) || '.unknown';
+  return `${upload.id}${ext}`;
+}
+
+export async function deleteUpload(uploadId: Upload['id']) {
+  await sql`DELETE FROM uploads WHERE id = ${uploadId}`;
+  await cleanupFile(getUploadPath(uploadId));
+}
+
+/**
+ * Appends the body of the request to the upload, never going past its `upload_length`.
+ * The offset is stored even if the stream breaks midway, so the client can resume from the last byte received.
+ * The caller must hold the lock of the upload (see `lockUpload`).
+ */
+export async function appendToUpload(upload: Upload, body: ReadableStream<Uint8Array>) {
+  const handle = await open(getUploadPath(upload.id), 'r+');
+  let offset = upload.upload_offset;
+  let exceeded = false;
+
+  const { error } = await tryCatch((async () => {
+    for await (const chunk of body) {
+      if (chunk.length > upload.upload_length - offset) {
+        exceeded = true;
+        break;
+      }
+
+      await handle.write(chunk, 0, chunk.length, offset);
+      offset += chunk.length;
+    }
+  })());
+
+  await handle.close();
+  await sql`UPDATE uploads SET upload_offset = ${offset}, updated_at = ${new Date().toISOString()} WHERE id = ${upload.id}`;
+
+  return { offset, exceeded, interrupted: !!error };
+}
+
+/**
+ * Takes the lock of the upload, returns `false` if another request already holds it.
+ * The row must be read again once locked, the previous holder may have moved the offset (or completed the upload).
+ */
+export function lockUpload(uploadId: Upload['id']) {
+  if (lockedUploads.has(uploadId)) return false;
+  lockedUploads.add(uploadId);
+  return true;
+}
+
+export function unlockUpload(uploadId: Upload['id']) {
+  lockedUploads.delete(uploadId);
+}
+
+export function isUploadLocked(uploadId: Upload['id']) {
+  return lockedUploads.has(uploadId);
+}
+
+/**
+ * When the upload expires if it doesn't receive more data, sent to tus clients as `Upload-Expires`.
+ */
+export function getUploadExpiration(upload: Upload) {
+  return new Date(new Date(upload.updated_at).getTime() + UPLOAD_EXPIRATION);
+}
+
+/**
+ * Deletes the expired uploads on start and then every hour.
+ */
+export function startUploadsCleanup() {
+  const cleanup = async () => {
+    const { data: deleted, error } = await tryCatch(deleteExpiredUploads());
+    if (error) console.error('Failed to delete the expired uploads', error);
+    else if (deleted) console.log(`Deleted ${deleted} expired uploads`);
+  };
+
+  void cleanup();
+  setInterval(() => void cleanup(), UPLOADS_CLEANUP_INTERVAL);
+}
+
+/**
+ * Deletes the expired uploads: their row, the chunks stored on disk and the object a presigned upload may have left on S3.
+ * Files on disk without an upload row (e.g. left by a crash) are removed too.
+ */
+async function deleteExpiredUploads() {
+  const expiredBefore = new Date(Date.now() - UPLOAD_EXPIRATION).toISOString();
+  const expired = await sql`SELECT * FROM uploads WHERE updated_at < ${expiredBefore}`;
+
+  for (const upload of (expired as Record<string, unknown>[]).map(parseUpload)) {
+    if (isUploadLocked(upload.id)) continue;
+    if (upload.method === 'presigned') {
+      await tryCatch(spaces.file(getUploadKey(upload)).delete());
+    }
+    await deleteUpload(upload.id);
+  }
+
+  // listed before the rows, so an upload created meanwhile can't be taken for a leftover
+  const storedFiles = await readdir(UPLOADS_DIR);
+  const uploadIds = new Set((await sql`SELECT id FROM uploads`).map((row: { id: string }) => row.id));
+  for (const name of storedFiles) {
+    if (!uploadIds.has(name)) await cleanupFile(path.join(UPLOADS_DIR, name));
+  }
+
+  return expired.length as number;
+}
+
+/**
+ * Streams the assembled file to S3 and registers it the same way `/upload` does,
+ * the upload is removed afterward (its id lives on as the file id).
+ */
+export async function completeUpload(upload: Upload) {
+  await uploadToS3FromDisk(getUploadPath(upload.id), getUploadKey(upload));
+  await registerUploadedFile(upload);
+}
+
+/**
+ * Creates the `files` row for an upload already stored on S3 and queues its metadata extraction.
+ */
+export async function registerUploadedFile(upload: Upload) {
+  await createFile({
+    id: upload.id,
+    file_name: upload.file_name,
+    file_path: getUploadKey(upload),
+    mime_type: upload.mime_type,
+    owner: upload.owner,
+  });
+  await deleteUpload(upload.id);
+
+  after(async () => {
+    await updateFileMetadata(upload.id);
+  });
+}
+
+function getUploadPath(uploadId: Upload['id']) {
+  return path.join(UPLOADS_DIR, uploadId);
+}
+
+/**
+ * Postgres `BIGINT` columns come back as strings.
+ */
+function parseUpload(row: Record<string, unknown>): Upload {
+  return {
+    ...(row as unknown as Upload),
+    upload_offset: Number(row.upload_offset),
+    upload_length: Number(row.upload_length),
+  };
+}
+
+/**
+ * Parses the tus `Upload-Metadata` header: comma separated `key base64(value)` pairs.
+ */
+export function parseUploadMetadata(header: string | null) {
+  const metadata: Record<string, string> = {};
+  if (!header) return metadata;
+
+  for (const pair of header.split(',')) {
+    const [key, value] = pair.trim().split(' ');
+    if (!key) continue;
+    metadata[key] = value ? Buffer.from(value, 'base64').toString('utf-8') : '';
+  }
+
+  return metadata;
+}
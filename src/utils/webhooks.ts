@@ -0,0 +1,120 @@
+import { tryCatch } from './promises.ts';
+import { assertPublicUrl } from './network.ts';
+import type { Task } from './tasks.ts';
+
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET;
+const WEBHOOK_MAX_ATTEMPTS = 5;
+const WEBHOOK_RETRY_DELAY = 2000; // doubles on every attempt: 2s, 4s, 8s, 16s
+const WEBHOOK_TIMEOUT = 10_000;
+
+export interface TaskWebhookEvent {
+  event: 'task.completed' | 'task.failed' | 'task.unreachable';
+  file_id: string;
+  task_id: number;
+  operation: Task['operation'];
+  status: Task['status'];
+  error: string | null;
+  new_file_id: string | null;
+  /**
+   * `true` when there are no more queued or processing tasks for the file,
+   * meaning this was the last task of the chain.
+   */
+  chain_completed: boolean;
+  timestamp: string;
+}
+
+/**
+ * Delivers the task event to the `callback_url` of the operation (if any) in the background.
+ * The payload is signed with an HMAC-SHA256 of `{timestamp}.{body}` using the `WEBHOOK_SECRET`.
+ * The delivery isn't awaited nor queued, slow receivers must not hold back the background queue.
+ */
+export function sendTaskWebhook(task: Task, chainCompleted: boolean) {
+  const callbackUrl = resolveCallbackUrl(task);
+  if (!callbackUrl) return;
+
+  if (!WEBHOOK_SECRET) {
+    logWebhookMessage(`Skipping webhook for task ${task.id}, WEBHOOK_SECRET is not set`);
+    return;
+  }
+
+  const event: TaskWebhookEvent = {
+    event: `task.${task.status}` as TaskWebhookEvent['event'],
+    file_id: task.file_id,
+    task_id: task.id,
+    operation: task.operation,
+    status: task.status,
+    error: task.error ?? null,
+    new_file_id: task.output_file_id ?? null,
+    chain_completed: chainCompleted,
+    timestamp: new Date().toISOString(),
+  };
+
+  void tryCatch(deliverWebhook(callbackUrl, event, WEBHOOK_SECRET));
+}
+
+async function deliverWebhook(url: string, event: TaskWebhookEvent, secret: string) {
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = signPayload(`${timestamp}.${body}`, secret);
+
+  // checked on delivery too, the host could resolve to a different address than when the task was created
+  const { error: addressError } = await tryCatch(assertPublicUrl(url));
+  if (addressError) {
+    logWebhookMessage(`Skipping webhook for task ${event.task_id}: ${addressError.message}`);
+    return;
+  }
+
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    const { data: response, error } = await tryCatch(
+      fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Bunpeg-Event': event.event,
+          'X-Bunpeg-Timestamp': timestamp,
+          'X-Bunpeg-Signature': `sha256=${signature}`,
+        },
+        body,
+        redirect: 'manual', // a redirect could point to an internal host
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+      })
+    );
+
+    if (response?.ok) {
+      logWebhookMessage(`Delivered ${event.event} for task ${event.task_id} to ${url}`);
+      return;
+    }
+
+    // client errors (other than rate limits) won't get better by retrying
+    if (response && response.status < 500 && response.status !== 429) {
+      logWebhookMessage(`Webhook for task ${event.task_id} rejected by ${url} with status ${response.status}`);
+      return;
+    }
+
+    const reason = error ? error.message : `status ${response?.status}`;
+    logWebhookMessage(`Attempt ${attempt}/${WEBHOOK_MAX_ATTEMPTS} for task ${event.task_id} failed: ${reason}`);
+
+    if (attempt < WEBHOOK_MAX_ATTEMPTS) {
+      await new Promise((resolve) => setTimeout(resolve, WEBHOOK_RETRY_DELAY * 2 ** (attempt - 1)));
+    }
+  }
+
+  logWebhookMessage(`Giving up on webhook for task ${event.task_id} to ${url}`);
+}
+
+function signPayload(payload: string, secret: string) {
+  const hasher = new Bun.CryptoHasher('sha256', secret);
+  hasher.update(payload);
+  return hasher.digest('hex');
+}
+
+function resolveCallbackUrl(task: Task): string | null {
+  const args = JSON.parse(task.args);
+  return typeof args.callback_url === 'string' ? args.callback_url : null;
+}
+
+function logWebhookMessage(message: string) {
+  console.log(`------- Webhooks ------------`);
+  console.log(message);
+  console.log(' ');
+}